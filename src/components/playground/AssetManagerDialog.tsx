@@ -0,0 +1,158 @@
+import { useRef } from 'react'
+import { Copy, FileBox, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import type { StoredAsset } from '@/lib/asset-store'
+import { findAssetReferences, toAssetUrl } from '@/lib/asset-url'
+import type { CodeLocation } from '@/lib/runtime/protocol'
+
+interface AssetManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Null for the unsaved draft
+  sceneName: string | null
+  assets: StoredAsset[]
+  error: string | null
+  code: string
+  onAddFiles: (files: File[]) => void
+  onRemoveAsset: (name: string) => void
+  onCopyUrl: (url: string) => void
+  onJumpToLocation: (location: CodeLocation) => void
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function AssetManagerDialog({
+  open,
+  onOpenChange,
+  sceneName,
+  assets,
+  error,
+  code,
+  onAddFiles,
+  onRemoveAsset,
+  onCopyUrl,
+  onJumpToLocation
+}: AssetManagerDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const totalSize = assets.reduce((total, asset) => total + asset.size, 0)
+
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length > 0) {
+      onAddFiles(files)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Stored files</DialogTitle>
+          <DialogDescription>
+            Files kept with {sceneName ? `"${sceneName}"` : 'the unsaved scene'}. Code loads them as asset://name,
+            e.g. new BABYLON.Texture("asset://brick.png", scene).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {assets.length} {assets.length === 1 ? 'file' : 'files'}, {formatBytes(totalSize)}
+          </span>
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => fileInputRef.current?.click()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add files...
+          </Button>
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesPicked} />
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {assets.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-10 text-sm text-muted-foreground">
+            <FileBox className="w-8 h-8" />
+            No files yet. Imported models and added textures show up here.
+          </div>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-muted-foreground text-left">
+                <tr>
+                  <th className="font-normal py-1 pr-3">Name</th>
+                  <th className="font-normal py-1 pr-3">Type</th>
+                  <th className="font-normal py-1 pr-3 text-right">Size</th>
+                  <th className="font-normal py-1 pr-3">Referenced on</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map(asset => {
+                  const lines = findAssetReferences(code, asset.name)
+                  return (
+                    <tr key={asset.name} className="border-t border-border">
+                      <td className="py-1.5 pr-3 font-mono text-xs break-all">{asset.name}</td>
+                      <td className="py-1.5 pr-3 text-xs text-muted-foreground">{asset.mimeType}</td>
+                      <td className="py-1.5 pr-3 text-xs text-right tabular-nums">{formatBytes(asset.size)}</td>
+                      <td className="py-1.5 pr-3 text-xs">
+                        {lines.length === 0 ? (
+                          // Sidecars are loaded by the model that refers to them, not by the code
+                          <span className="text-muted-foreground">Not in code</span>
+                        ) : (
+                          <span className="flex flex-wrap gap-1">
+                            {lines.map(line => (
+                              <button
+                                key={line}
+                                type="button"
+                                className="text-primary hover:underline"
+                                onClick={() => {
+                                  onOpenChange(false)
+                                  onJumpToLocation({ line, column: 1 })
+                                }}
+                              >
+                                line {line}
+                              </button>
+                            ))}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title={`Copy ${toAssetUrl(asset.name)}`}
+                          onClick={() => onCopyUrl(toAssetUrl(asset.name))}
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Delete the file"
+                          onClick={() => onRemoveAsset(asset.name)}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,103 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { AssetParameters, getParameterFields } from '@/lib/asset-parameters'
+
+interface AssetParametersDialogProps {
+  // The entry being inserted; the dialog is closed without one
+  assetName: string | null
+  parameters: AssetParameters | null
+  onOpenChange: (open: boolean) => void
+  onInsert: (code: string) => void
+}
+
+function ParametersForm({
+  parameters,
+  onCancel,
+  onInsert
+}: {
+  parameters: AssetParameters
+  onCancel: () => void
+  onInsert: (code: string) => void
+}) {
+  const fields = getParameterFields(parameters)
+  const form = useForm({
+    resolver: zodResolver(parameters.schema),
+    defaultValues: Object.fromEntries(fields.map(field => [field.name, field.defaultValue]))
+  })
+
+  const handleSubmit = form.handleSubmit(values => onInsert(parameters.buildCode(values)))
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {fields.map(parameter => (
+            <FormField
+              key={parameter.name}
+              control={form.control}
+              name={parameter.name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{parameter.label}</FormLabel>
+                  <FormControl>
+                    {parameter.kind === 'number' ? (
+                      <Input type="number" min={parameter.min} max={parameter.max} step={parameter.step} {...field} />
+                    ) : (
+                      <Input type="color" className="h-10 p-1" {...field} />
+                    )}
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">Insert</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  )
+}
+
+export function AssetParametersDialog({ assetName, parameters, onOpenChange, onInsert }: AssetParametersDialogProps) {
+  return (
+    <Dialog open={assetName !== null && parameters !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{assetName}</DialogTitle>
+          <DialogDescription>
+            These options go into the code that creates it.
+          </DialogDescription>
+        </DialogHeader>
+        {parameters && (
+          <ParametersForm
+            key={assetName}
+            parameters={parameters}
+            onCancel={() => onOpenChange(false)}
+            onInsert={onInsert}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
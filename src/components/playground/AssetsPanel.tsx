@@ -1,4 +1,5 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
+import { z } from 'zod'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -15,75 +16,109 @@ import {
   Image,
   Lightbulb,
   Camera,
-  Move3D
+  Move3D,
+  Upload,
+  FileBox,
+  ImagePlus
 } from 'lucide-react'
+import { MODEL_FILE_ACCEPT } from '@/lib/model-files'
+import { LibraryAsset, setAssetDragData } from '@/lib/asset-drag'
+import {
+  AssetParameters,
+  colorParameter,
+  defineParameters,
+  getDefaultCode,
+  numberParameter,
+  toColor3Code
+} from '@/lib/asset-parameters'
+import type { StoredAsset } from '@/lib/asset-store'
+import { toAssetUrl } from '@/lib/asset-url'
+import { cn } from '@/lib/utils'
+import { AssetParametersDialog } from './AssetParametersDialog'
 
-interface Asset {
+export interface Asset extends LibraryAsset {
   id: string
-  name: string
-  type: 'mesh' | 'material' | 'texture' | 'light' | 'camera'
   category: string
   icon: React.ComponentType<{ className?: string }>
-  code: string
   preview?: string
+  // Asked for in a dialog when the entry is clicked
+  parameters?: AssetParameters
+}
+
+function withParameters(asset: Omit<Asset, 'code' | 'parameters'>, parameters: AssetParameters): Asset {
+  return { ...asset, parameters, code: getDefaultCode(parameters) }
 }
 
 const BABYLON_ASSETS: Asset[] = [
   // Basic Meshes
-  {
+  withParameters({
     id: 'box',
     name: 'Box',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Box,
-    code: `const box = BABYLON.MeshBuilder.CreateBox("box", {size: 2}, scene);
-box.position.y = 1;`
-  },
-  {
+    icon: Box
+  }, defineParameters(z.object({
+    size: numberParameter('Size', 2, { min: 0.1, max: 100 })
+  }), ({ size }) => `const box = BABYLON.MeshBuilder.CreateBox("box", {size: ${size}}, scene);
+box.position.y = ${size / 2};`)),
+  withParameters({
     id: 'sphere',
     name: 'Sphere',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Circle,
-    code: `const sphere = BABYLON.MeshBuilder.CreateSphere("sphere", {diameter: 2}, scene);
-sphere.position.y = 1;`
-  },
-  {
+    icon: Circle
+  }, defineParameters(z.object({
+    diameter: numberParameter('Diameter', 2, { min: 0.1, max: 100 }),
+    segments: numberParameter('Segments', 32, { min: 1, max: 128, integer: true })
+  }), ({ diameter, segments }) => `const sphere = BABYLON.MeshBuilder.CreateSphere("sphere", {diameter: ${diameter}, segments: ${segments}}, scene);
+sphere.position.y = ${diameter / 2};`)),
+  withParameters({
     id: 'cylinder',
     name: 'Cylinder',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Cylinder,
-    code: `const cylinder = BABYLON.MeshBuilder.CreateCylinder("cylinder", {height: 3, diameter: 2}, scene);
-cylinder.position.y = 1.5;`
-  },
-  {
+    icon: Cylinder
+  }, defineParameters(z.object({
+    height: numberParameter('Height', 3, { min: 0.1, max: 100 }),
+    diameter: numberParameter('Diameter', 2, { min: 0.1, max: 100 }),
+    tessellation: numberParameter('Tessellation', 24, { min: 3, max: 128, integer: true })
+  }), ({ height, diameter, tessellation }) => `const cylinder = BABYLON.MeshBuilder.CreateCylinder("cylinder", {height: ${height}, diameter: ${diameter}, tessellation: ${tessellation}}, scene);
+cylinder.position.y = ${height / 2};`)),
+  withParameters({
     id: 'cone',
     name: 'Cone',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Triangle,
-    code: `const cone = BABYLON.MeshBuilder.CreateCylinder("cone", {height: 3, diameterTop: 0, diameterBottom: 2}, scene);
-cone.position.y = 1.5;`
-  },
-  {
+    icon: Triangle
+  }, defineParameters(z.object({
+    height: numberParameter('Height', 3, { min: 0.1, max: 100 }),
+    diameterBottom: numberParameter('Base diameter', 2, { min: 0.1, max: 100 }),
+    tessellation: numberParameter('Tessellation', 24, { min: 3, max: 128, integer: true })
+  }), ({ height, diameterBottom, tessellation }) => `const cone = BABYLON.MeshBuilder.CreateCylinder("cone", {height: ${height}, diameterTop: 0, diameterBottom: ${diameterBottom}, tessellation: ${tessellation}}, scene);
+cone.position.y = ${height / 2};`)),
+  withParameters({
     id: 'plane',
     name: 'Plane',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Square,
-    code: `const plane = BABYLON.MeshBuilder.CreatePlane("plane", {size: 2}, scene);
-plane.position.y = 1;`
-  },
-  {
+    icon: Square
+  }, defineParameters(z.object({
+    width: numberParameter('Width', 2, { min: 0.1, max: 100 }),
+    height: numberParameter('Height', 2, { min: 0.1, max: 100 })
+  }), ({ width, height }) => `const plane = BABYLON.MeshBuilder.CreatePlane("plane", {width: ${width}, height: ${height}}, scene);
+plane.position.y = ${height / 2};`)),
+  withParameters({
     id: 'torus',
     name: 'Torus',
     type: 'mesh',
     category: 'Basic Shapes',
-    icon: Circle,
-    code: `const torus = BABYLON.MeshBuilder.CreateTorus("torus", {diameter: 2, thickness: 0.5}, scene);
-torus.position.y = 1;`
-  },
+    icon: Circle
+  }, defineParameters(z.object({
+    diameter: numberParameter('Diameter', 2, { min: 0.1, max: 100 }),
+    thickness: numberParameter('Thickness', 0.5, { min: 0.05, max: 50 }),
+    tessellation: numberParameter('Tessellation', 16, { min: 3, max: 128, integer: true })
+  }), ({ diameter, thickness, tessellation }) => `const torus = BABYLON.MeshBuilder.CreateTorus("torus", {diameter: ${diameter}, thickness: ${thickness}, tessellation: ${tessellation}}, scene);
+torus.position.y = ${thickness / 2};`)),
   
   // Materials
   {
@@ -120,39 +155,99 @@ greenMaterial.diffuseColor = new BABYLON.Color3(0, 1, 0);`
     category: 'Materials',
     icon: Palette,
     code: `const metallicMaterial = new BABYLON.PBRMaterial("metallicMaterial", scene);
-metallicMaterial.baseColor = new BABYLON.Color3(0.7, 0.7, 0.7);
-metallicMaterial.metallicFactor = 0.9;
-metallicMaterial.roughnessFactor = 0.1;`
+metallicMaterial.albedoColor = new BABYLON.Color3(0.7, 0.7, 0.7);
+metallicMaterial.metallic = 0.9;
+metallicMaterial.roughness = 0.1;`
   },
 
-  // Lights
+  // Textures
+  {
+    id: 'noise-texture',
+    name: 'Noise',
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `new BABYLON.NoiseProceduralTexture("noise", 512, scene)`,
+    texture: { kind: 'procedural', procedural: 'noise' }
+  },
+  {
+    id: 'marble-texture',
+    name: 'Marble',
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `new BABYLON.MarbleProceduralTexture("marble", 512, scene)`,
+    texture: { kind: 'procedural', procedural: 'marble' }
+  },
+  {
+    id: 'wood-texture',
+    name: 'Wood',
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `new BABYLON.WoodProceduralTexture("wood", 512, scene)`,
+    texture: { kind: 'procedural', procedural: 'wood' }
+  },
   {
+    id: 'grass-texture',
+    name: 'Grass',
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `new BABYLON.GrassProceduralTexture("grass", 512, scene)`,
+    texture: { kind: 'procedural', procedural: 'grass' }
+  },
+  {
+    id: 'checkerboard-texture',
+    name: 'Checkerboard',
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `BABYLON.RawTexture.CreateRGBTexture(checkerboardPixels, 2, 2, scene)`,
+    texture: { kind: 'procedural', procedural: 'checkerboard' }
+  },
+
+  // Lights
+  withParameters({
     id: 'directional-light',
     name: 'Directional Light',
     type: 'light',
     category: 'Lights',
-    icon: Lightbulb,
-    code: `const directionalLight = new BABYLON.DirectionalLight("directionalLight", new BABYLON.Vector3(-1, -1, -1), scene);
-directionalLight.intensity = 1;`
-  },
-  {
+    icon: Lightbulb
+  }, defineParameters(z.object({
+    color: colorParameter('Color', '#ffffff'),
+    intensity: numberParameter('Intensity', 1, { min: 0, max: 100 })
+  }), ({ color, intensity }) => `const directionalLight = new BABYLON.DirectionalLight("directionalLight", new BABYLON.Vector3(-1, -1, -1), scene);
+directionalLight.diffuse = ${toColor3Code(color)};
+directionalLight.intensity = ${intensity};`)),
+  withParameters({
     id: 'point-light',
     name: 'Point Light',
     type: 'light',
     category: 'Lights',
-    icon: Lightbulb,
-    code: `const pointLight = new BABYLON.PointLight("pointLight", new BABYLON.Vector3(0, 5, 0), scene);
-pointLight.intensity = 1;`
-  },
-  {
+    icon: Lightbulb
+  }, defineParameters(z.object({
+    color: colorParameter('Color', '#ffffff'),
+    intensity: numberParameter('Intensity', 1, { min: 0, max: 100 }),
+    range: numberParameter('Range', 20, { min: 0.1, max: 1000 })
+  }), ({ color, intensity, range }) => `const pointLight = new BABYLON.PointLight("pointLight", new BABYLON.Vector3(0, 5, 0), scene);
+pointLight.diffuse = ${toColor3Code(color)};
+pointLight.intensity = ${intensity};
+pointLight.range = ${range};`)),
+  withParameters({
     id: 'spot-light',
     name: 'Spot Light',
     type: 'light',
     category: 'Lights',
-    icon: Lightbulb,
-    code: `const spotLight = new BABYLON.SpotLight("spotLight", new BABYLON.Vector3(0, 5, 0), new BABYLON.Vector3(0, -1, 0), Math.PI / 3, 2, scene);
-spotLight.intensity = 1;`
-  },
+    icon: Lightbulb
+  }, defineParameters(z.object({
+    color: colorParameter('Color', '#ffffff'),
+    intensity: numberParameter('Intensity', 1, { min: 0, max: 100 }),
+    range: numberParameter('Range', 20, { min: 0.1, max: 1000 })
+  }), ({ color, intensity, range }) => `const spotLight = new BABYLON.SpotLight("spotLight", new BABYLON.Vector3(0, 5, 0), new BABYLON.Vector3(0, -1, 0), Math.PI / 3, 2, scene);
+spotLight.diffuse = ${toColor3Code(color)};
+spotLight.intensity = ${intensity};
+spotLight.range = ${range};`)),
 
   // Cameras
   {
@@ -176,22 +271,105 @@ freeCamera.attachControl(canvas, true);`
   }
 ]
 
+// Stored images are textures too, referenced by their asset:// URL
+function toImageAsset(stored: StoredAsset): Asset {
+  return {
+    id: `image-${stored.name}`,
+    name: stored.name,
+    type: 'texture',
+    category: 'Textures',
+    icon: Image,
+    code: `new BABYLON.Texture(${JSON.stringify(toAssetUrl(stored.name))}, scene)`,
+    texture: { kind: 'image', fileName: stored.name }
+  }
+}
+
 interface AssetsPanelProps {
+  // Without a drop point, textures and materials go on the selected mesh
   onAssetDrop: (asset: Asset) => void
+  // Model files with their sidecars, from the file picker or dropped on the panel
+  onImportFiles: (files: File[]) => void
+  // Images to store with the scene as textures
+  onUploadImages: (files: File[]) => void
+  // Files stored with the current scene
+  storedAssets: StoredAsset[]
+  onManageAssets: () => void
   className?: string
 }
 
-export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
+export function AssetsPanel({
+  onAssetDrop,
+  onImportFiles,
+  onUploadImages,
+  storedAssets,
+  onManageAssets,
+  className
+}: AssetsPanelProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [draggedAsset, setDraggedAsset] = useState<Asset | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const [parameterizedAsset, setParameterizedAsset] = useState<Asset | null>(null)
+
+  // Drags insert the defaults; clicks ask for the options first
+  const handleSelect = (asset: Asset) => {
+    if (asset.parameters) {
+      setParameterizedAsset(asset)
+    } else {
+      onAssetDrop(asset)
+    }
+  }
+
+  const handleInsert = (code: string) => {
+    if (parameterizedAsset) {
+      onAssetDrop({ ...parameterizedAsset, code })
+    }
+    setParameterizedAsset(null)
+  }
+
+  const handleFilesDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFiles(true)
+  }
+
+  const handleFilesDrop = (e: React.DragEvent) => {
+    setIsDraggingFiles(false)
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    onImportFiles(files)
+  }
+
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    // Lets the same file be picked again
+    e.target.value = ''
+    if (files.length > 0) {
+      onImportFiles(files)
+    }
+  }
+
+  const handleImagesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length > 0) {
+      onUploadImages(files)
+    }
+  }
 
   const handleDragStart = (asset: Asset, e: React.DragEvent) => {
     setDraggedAsset(asset)
-    e.dataTransfer.setData('application/json', JSON.stringify(asset))
-    e.dataTransfer.effectAllowed = 'copy'
+    setAssetDragData(e.dataTransfer, asset)
   }
 
-  const filteredAssets = BABYLON_ASSETS.filter(asset =>
+  const imageAssets = storedAssets
+    .filter(stored => stored.mimeType.startsWith('image/'))
+    .map(toImageAsset)
+
+  const filteredAssets = [...BABYLON_ASSETS, ...imageAssets].filter(asset =>
     asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     asset.category.toLowerCase().includes(searchTerm.toLowerCase())
   )
@@ -217,7 +395,12 @@ export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
   }
 
   return (
-    <Card className={`assets-panel ${className}`}>
+    <Card
+      className={cn('assets-panel', isDraggingFiles && 'ring-2 ring-primary', className)}
+      onDragOver={handleFilesDragOver}
+      onDragLeave={() => setIsDraggingFiles(false)}
+      onDrop={handleFilesDrop}
+    >
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2">
           <Move3D className="h-5 w-5" />
@@ -230,10 +413,53 @@ export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
           onChange={(e) => setSearchTerm(e.target.value)}
           className="w-full px-3 py-2 bg-background border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
         />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fileInputRef.current?.click()}
+            title="glTF files need their .bin and textures picked along with them"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import model...
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => imageInputRef.current?.click()}
+            title="Upload images to use as textures"
+          >
+            <ImagePlus className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={onManageAssets} title="Files stored with this scene">
+            <FileBox className="h-4 w-4 mr-2" />
+            {storedAssets.length}
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={MODEL_FILE_ACCEPT}
+          className="hidden"
+          onChange={handleFilesPicked}
+        />
+        <input
+          ref={imageInputRef}
+          type="file"
+          multiple
+          accept="image/*"
+          className="hidden"
+          onChange={handleImagesPicked}
+        />
+        <p className="text-xs text-muted-foreground">
+          Or drop .glb, .gltf, .obj, .stl and .babylon files here or on the canvas. Drop textures and materials on a mesh, or click one to apply it to the selected mesh.
+        </p>
       </CardHeader>
       
       <CardContent className="p-0">
-        <ScrollArea className="h-[calc(100vh-12rem)]">
+        <ScrollArea className="h-[calc(100vh-18.25rem)]">
           <div className="p-4 space-y-6">
             {Object.entries(groupedAssets).map(([category, assets]) => (
               <div key={category}>
@@ -247,7 +473,7 @@ export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
                       draggable
                       onDragStart={(e) => handleDragStart(asset, e)}
                       className="group flex items-center gap-3 p-3 rounded-lg border bg-card hover:bg-muted/50 cursor-grab active:cursor-grabbing transition-colors"
-                      onClick={() => onAssetDrop(asset)}
+                      onClick={() => handleSelect(asset)}
                     >
                       <div className="p-2 rounded-md bg-muted">
                         <asset.icon className="h-4 w-4" />
@@ -271,7 +497,7 @@ export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
                         className="opacity-0 group-hover:opacity-100 transition-opacity"
                         onClick={(e) => {
                           e.stopPropagation()
-                          onAssetDrop(asset)
+                          handleSelect(asset)
                         }}
                       >
                         Add
@@ -287,6 +513,13 @@ export function AssetsPanel({ onAssetDrop, className }: AssetsPanelProps) {
           </div>
         </ScrollArea>
       </CardContent>
+
+      <AssetParametersDialog
+        assetName={parameterizedAsset?.name ?? null}
+        parameters={parameterizedAsset?.parameters ?? null}
+        onOpenChange={(open) => !open && setParameterizedAsset(null)}
+        onInsert={handleInsert}
+      />
     </Card>
   )
 }
\ No newline at end of file
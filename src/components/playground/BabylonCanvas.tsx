@@ -1,324 +1,398 @@
-import { useRef, useEffect, useState } from 'react'
-import * as BABYLON from '@babylonjs/core'
-import '@babylonjs/inspector'
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { Activity } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SandboxRuntime } from '@/lib/runtime/sandbox-runtime'
+import type { CanvasPoint, CodeLocation, EngineBackend, EngineInfo, ErrorSource, SandboxMessageOf, StatsSample } from '@/lib/runtime/protocol'
+import { getCompiler } from '@/lib/compiler/compiler-client'
+import { SourceMap } from '@/lib/compiler/source-map'
+import type { CompileDiagnostic, SourceLanguage } from '@/lib/compiler/types'
+import type { RunMode } from '@/lib/settings'
+import {
+  DEFAULT_PLAYBACK,
+  PlaybackCommand,
+  PlaybackState,
+  applyPlaybackCommand,
+  clampTimeScale,
+  getPlaybackCommand
+} from '@/lib/runtime/playback'
+import { toStatsCsv } from '@/lib/stats'
+import { downloadFile } from '@/lib/download'
+import { LibraryAsset, getAssetDragData, isAssetDrag } from '@/lib/asset-drag'
 import { cn } from '@/lib/utils'
+import { ErrorPanel, PlaygroundError } from './ErrorPanel'
+import { PlaybackControls } from './PlaybackControls'
+import { StatsOverlay } from './StatsOverlay'
+
+export type SceneReadyEvent = SandboxMessageOf<'scene-ready'>
+
+export interface BabylonCanvasHandle {
+  // Compiles and runs the current code right away, whatever the run mode
+  run: () => void
+  // Disposes the scene and halts the render loop until the next run
+  stop: () => void
+}
+
+// Manual mode still compiles while typing so the editor markers stay current
+const DIAGNOSTICS_DELAY_MS = 500
+
+// Ten minutes of stats at two samples per second
+const MAX_STATS_SAMPLES = 1200
+
+const ERROR_TITLES: Record<ErrorSource, string> = {
+  'user-code': 'Error in scene code',
+  'render-loop': 'Rendering stopped',
+  runtime: 'Rendering Error'
+}
 
 interface BabylonCanvasProps {
   code: string
+  language: SourceLanguage
+  runtime: SandboxRuntime
+  runMode?: RunMode
+  liveRunDelayMs?: number
+  blockOnTypeErrors?: boolean
+  executionBudgetMs?: number
+  // Switching it replaces the sandbox, which re-runs the scene on the new engine
+  engine?: EngineBackend
   className?: string
-  onSceneReady?: (scene: BABYLON.Scene) => void
+  onSceneReady?: (event: SceneReadyEvent) => void
   onError?: (error: Error) => void
+  onDiagnostics?: (diagnostics: CompileDiagnostic[]) => void
+  onRunStart?: (runId: number) => void
+  onJumpToLocation?: (location: CodeLocation) => void
+  onEngineReady?: (info: EngineInfo) => void
+  // An Assets Library entry dropped on the canvas, at the drop point
+  onAssetDrop?: (asset: LibraryAsset, point: CanvasPoint) => void
 }
 
-export function BabylonCanvas({ code, className, onSceneReady, onError }: BabylonCanvasProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const engineRef = useRef<BABYLON.Engine | null>(null)
-  const sceneRef = useRef<BABYLON.Scene | null>(null)
-  const resizeObserverRef = useRef<ResizeObserver | null>(null)
+export const BabylonCanvas = forwardRef<BabylonCanvasHandle, BabylonCanvasProps>(function BabylonCanvas({
+  code,
+  language,
+  runtime,
+  runMode = 'live',
+  liveRunDelayMs = 300,
+  blockOnTypeErrors = false,
+  executionBudgetMs = 5000,
+  engine = 'webgl2',
+  className,
+  onSceneReady,
+  onError,
+  onDiagnostics,
+  onRunStart,
+  onJumpToLocation,
+  onEngineReady,
+  onAssetDrop
+}, ref) {
+  const frameRef = useRef<HTMLIFrameElement>(null)
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const compileIdRef = useRef(0)
+  const pendingRunIdRef = useRef<number | null>(null)
+  // Whether the sandbox shows a scene that an engine switch should bring back
+  const hasSceneRef = useRef(false)
+  const previousEngineRef = useRef(engine)
   const [isLoading, setIsLoading] = useState(true)
   const [isExecuting, setIsExecuting] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<PlaygroundError | null>(null)
+  const [engineInfo, setEngineInfo] = useState<EngineInfo | null>(null)
+  const [playback, setPlayback] = useState<PlaybackState>(DEFAULT_PLAYBACK)
+  const [playbackFrame, setPlaybackFrame] = useState<number | null>(null)
+  const [showStats, setShowStats] = useState(false)
+  const [statsSamples, setStatsSamples] = useState<StatsSample[]>([])
+  // Bumped to replace a hung sandbox with a fresh iframe
+  const [frameKey, setFrameKey] = useState(0)
+  const [isAssetDragActive, setIsAssetDragActive] = useState(false)
 
+  // Attach the runtime to the sandbox iframe for the lifetime of the component
   useEffect(() => {
-    if (!canvasRef.current) return
+    if (!frameRef.current) return
 
-    const canvas = canvasRef.current
-    
-    try {
-      // Create engine
-      const engine = new BABYLON.Engine(canvas, true, {
-        preserveDrawingBuffer: true,
-        stencil: true,
-        antialias: true,
-        adaptToDeviceRatio: true
+    runtime.attach(frameRef.current)
+    const unsubscribeReady = runtime.on('ready', () => setIsLoading(false))
+
+    return () => {
+      unsubscribeReady()
+      runtime.detach()
+    }
+  }, [runtime, frameKey, engine])
+
+  useEffect(() => {
+    return runtime.on('ready', (event) => {
+      setEngineInfo(event.engine)
+      onEngineReady?.(event.engine)
+    })
+  }, [runtime, onEngineReady])
+
+  useEffect(() => {
+    runtime.configure({ executionBudgetMs })
+  }, [runtime, executionBudgetMs])
+
+  useEffect(() => {
+    runtime.setPlayback(playback)
+    if (!playback.paused) {
+      setPlaybackFrame(null)
+    }
+  }, [runtime, playback])
+
+  useEffect(() => {
+    runtime.setStatsEnabled(showStats)
+  }, [runtime, showStats])
+
+  useEffect(() => {
+    return runtime.on('stats', (message) => {
+      setStatsSamples(previous => [...previous, message.sample].slice(-MAX_STATS_SAMPLES))
+    })
+  }, [runtime])
+
+  const handleExportStats = useCallback(() => {
+    const blob = new Blob([toStatsCsv(statsSamples)], { type: 'text/csv' })
+    downloadFile(blob, `babylon-stats-${format(new Date(), 'yyyyMMdd-HHmmss')}.csv`)
+  }, [statsSamples])
+
+  const handlePlaybackChange = useCallback((next: PlaybackState) => {
+    setPlayback({ ...next, timeScale: clampTimeScale(next.timeScale) })
+  }, [])
+
+  // Stepping a running scene pauses it on the current frame first
+  const handleStep = useCallback(() => {
+    if (playback.paused) {
+      runtime.stepFrame()
+    } else {
+      setPlayback(previous => ({ ...previous, paused: true }))
+    }
+  }, [runtime, playback.paused])
+
+  const handlePlaybackCommand = useCallback((command: PlaybackCommand) => {
+    if (command === 'step') {
+      handleStep()
+    } else {
+      setPlayback(previous => applyPlaybackCommand(previous, command))
+    }
+  }, [handleStep])
+
+  // Shortcuts work from anywhere on the page; the sandbox forwards the ones pressed on the canvas
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const command = getPlaybackCommand(event)
+      if (command) {
+        event.preventDefault()
+        handlePlaybackCommand(command)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    const unsubscribeCommand = runtime.on('playback-command', (message) => handlePlaybackCommand(message.command))
+    const unsubscribeFrame = runtime.on('playback-frame', (message) => setPlaybackFrame(message.frame))
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      unsubscribeCommand()
+      unsubscribeFrame()
+    }
+  }, [runtime, handlePlaybackCommand])
+
+  // Drag events over the iframe go to the sandbox, so an overlay catches library drags instead
+  useEffect(() => {
+    const handleDragStart = (event: DragEvent) => {
+      if (isAssetDrag(event.dataTransfer)) {
+        setIsAssetDragActive(true)
+      }
+    }
+    const handleDragEnd = () => setIsAssetDragActive(false)
+
+    window.addEventListener('dragstart', handleDragStart)
+    window.addEventListener('dragend', handleDragEnd)
+    window.addEventListener('drop', handleDragEnd)
+    return () => {
+      window.removeEventListener('dragstart', handleDragStart)
+      window.removeEventListener('dragend', handleDragEnd)
+      window.removeEventListener('drop', handleDragEnd)
+    }
+  }, [])
+
+  const handleAssetDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+  }, [])
+
+  const handleAssetDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsAssetDragActive(false)
+    const asset = getAssetDragData(event.dataTransfer)
+    if (!asset) return
+
+    const bounds = event.currentTarget.getBoundingClientRect()
+    onAssetDrop?.(asset, { x: event.clientX - bounds.left, y: event.clientY - bounds.top })
+  }, [onAssetDrop])
+
+  // Last resort when the loop guard could not stop the code: throw the whole sandbox away.
+  // The code stays in the editor; it runs again on the next edit.
+  useEffect(() => {
+    return runtime.onUnresponsive(() => {
+      pendingRunIdRef.current = null
+      hasSceneRef.current = false
+      setIsExecuting(false)
+      setIsLoading(true)
+      setError({
+        title: 'Execution aborted',
+        message: 'The scene stopped responding and was restarted. Your code has not been changed.'
       })
-      engineRef.current = engine
-
-      // Make BABYLON global available
-      ;(window as any).BABYLON = BABYLON
-      ;(window as any).engine = engine
-      ;(window as any).canvas = canvas
-
-      // Create initial scene immediately
-      const initialScene = new BABYLON.Scene(engine)
-      
-      // Add default camera
-      const camera = new BABYLON.FreeCamera("camera1", new BABYLON.Vector3(0, 5, -10), initialScene)
-      camera.setTarget(BABYLON.Vector3.Zero())
-      camera.attachControl(canvas, true)
-      
-      // Add default light  
-      const light = new BABYLON.HemisphericLight("light", new BABYLON.Vector3(0, 1, 0), initialScene)
-      light.intensity = 0.7
-      
-      // Add a default sphere
-      const sphere = BABYLON.MeshBuilder.CreateSphere("sphere", {diameter: 2, segments: 32}, initialScene)
-      sphere.position.y = 1
-      
-      // Add default ground
-      const ground = BABYLON.MeshBuilder.CreateGround("ground", {width: 6, height: 6}, initialScene)
-      
-      sceneRef.current = initialScene
-      ;(window as any).scene = initialScene
-      
-      onSceneReady?.(initialScene)
-
-      // Start render loop
-      engine.runRenderLoop(() => {
-        if (sceneRef.current) {
-          sceneRef.current.render()
-        }
+      setFrameKey(key => key + 1)
+    })
+  }, [runtime])
+
+  useEffect(() => {
+    const unsubscribeSceneReady = runtime.on('scene-ready', (event) => {
+      hasSceneRef.current = true
+      if (event.runId === pendingRunIdRef.current) {
+        pendingRunIdRef.current = null
+        setIsExecuting(false)
+      }
+      onSceneReady?.(event)
+    })
+
+    const unsubscribeError = runtime.on('error', (event) => {
+      setError({
+        title: event.aborted ? 'Execution aborted' : ERROR_TITLES[event.source],
+        message: event.message,
+        location: event.location,
+        frames: event.frames
       })
 
-      // Debounced resize handler
-      const handleResize = () => {
-        if (resizeTimeoutRef.current) {
-          clearTimeout(resizeTimeoutRef.current)
-        }
-        
-        resizeTimeoutRef.current = setTimeout(() => {
-          engine.resize()
-        }, 300)
+      if (event.runId === null) {
+        // The sandbox failed to boot, so it will never report 'ready'
+        setIsLoading(false)
       }
-      window.addEventListener('resize', handleResize)
-
-      // Setup ResizeObserver for panel resizing with debouncing
-      if (canvasRef.current?.parentElement) {
-        resizeObserverRef.current = new ResizeObserver(() => {
-          if (resizeTimeoutRef.current) {
-            clearTimeout(resizeTimeoutRef.current)
-          }
-          
-          resizeTimeoutRef.current = setTimeout(() => {
-            engine.resize()
-          }, 300)
-        })
-        resizeObserverRef.current.observe(canvasRef.current.parentElement)
+
+      if (event.source === 'runtime') {
+        if (event.runId === pendingRunIdRef.current) {
+          pendingRunIdRef.current = null
+          setIsExecuting(false)
+        }
+        const runtimeError = new Error(event.message)
+        runtimeError.stack = event.stack
+        onError?.(runtimeError)
       }
+    })
 
-      setIsLoading(false)
+    return () => {
+      unsubscribeSceneReady()
+      unsubscribeError()
+    }
+  }, [runtime, onSceneReady, onError])
 
-      return () => {
-        window.removeEventListener('resize', handleResize)
-        if (resizeTimeoutRef.current) {
-          clearTimeout(resizeTimeoutRef.current)
-        }
-        if (resizeObserverRef.current) {
-          resizeObserverRef.current.disconnect()
-        }
-        if (sceneRef.current) {
-          sceneRef.current.dispose()
-        }
-        engine.dispose()
+  // Compiles the current code and reports diagnostics; runs the result when asked to
+  const compile = useCallback(async (shouldRun: boolean) => {
+    const compileId = ++compileIdRef.current
+
+    try {
+      const result = await getCompiler().compile(code, {
+        language,
+        typeCheck: language === 'typescript'
+      })
+
+      // A newer edit has been compiled in the meantime
+      if (compileId !== compileIdRef.current) return
+
+      onDiagnostics?.(result.diagnostics)
+      if (!shouldRun) return
+
+      // Syntax errors always stop the run, type errors only when asked to
+      const blocking = result.diagnostics.find(diagnostic =>
+        diagnostic.severity === 'error' && (diagnostic.kind === 'syntax' || blockOnTypeErrors)
+      )
+      if (blocking) {
+        setError({
+          title: blocking.kind === 'syntax' ? 'Syntax error' : 'Type error',
+          message: blocking.message,
+          location: { line: blocking.startLineNumber, column: blocking.startColumn }
+        })
+        setIsExecuting(false)
+        return
       }
+
+      setError(null)
+      const runId = runtime.run(result.code, result.sourceMap ? new SourceMap(result.sourceMap) : null)
+      pendingRunIdRef.current = runId
+      onRunStart?.(runId)
     } catch (err) {
-      console.error('Failed to initialize Babylon.js:', err)
-      setError(err instanceof Error ? err.message : 'Failed to initialize 3D engine')
-      setIsLoading(false)
+      if (compileId !== compileIdRef.current) return
+      console.error('Error compiling code:', err)
+      if (shouldRun) {
+        setError({
+          title: 'Compilation failed',
+          message: err instanceof Error ? err.message : 'Failed to compile code'
+        })
+        setIsExecuting(false)
+      }
     }
-  }, [onSceneReady])
+  }, [code, language, runtime, blockOnTypeErrors, onDiagnostics, onRunStart])
 
-  const executeCodeWithDelay = (codeToExecute: string) => {
-    // Clear existing timeout
+  const cancelPendingCompile = useCallback(() => {
     if (debounceTimeoutRef.current) {
       clearTimeout(debounceTimeoutRef.current)
+      debounceTimeoutRef.current = null
     }
-    
-    // Set executing state
-    setIsExecuting(true)
-    
-    // Set new timeout for 300ms
-    debounceTimeoutRef.current = setTimeout(() => {
-      if (!engineRef.current || !canvasRef.current) {
-        setIsExecuting(false)
-        return
-      }
+  }, [])
 
-      try {
-        setError(null)
-        
-        const engine = engineRef.current
-        const canvas = canvasRef.current
-        
-        // Save current camera state and selected mesh before disposing scene
-        let savedCameraState: {
-          position: BABYLON.Vector3
-          rotation?: BABYLON.Vector3
-          target?: BABYLON.Vector3
-          alpha?: number
-          beta?: number
-          radius?: number
-          type: string
-        } | null = null
-        
-        let selectedMeshName: string | null = null
-        
-        if (sceneRef.current) {
-          const currentCamera = sceneRef.current.activeCamera
-          if (currentCamera) {
-            savedCameraState = {
-              position: currentCamera.position.clone(),
-              type: currentCamera.getClassName()
-            }
-            
-            // Handle different camera types
-            if (currentCamera instanceof BABYLON.FreeCamera) {
-              savedCameraState.rotation = (currentCamera as BABYLON.FreeCamera).rotation.clone()
-              savedCameraState.target = (currentCamera as any).target?.clone()
-            } else if (currentCamera instanceof BABYLON.ArcRotateCamera) {
-              const arcCamera = currentCamera as BABYLON.ArcRotateCamera
-              savedCameraState.alpha = arcCamera.alpha
-              savedCameraState.beta = arcCamera.beta
-              savedCameraState.radius = arcCamera.radius
-              savedCameraState.target = arcCamera.target.clone()
-            }
-          }
-          
-          // Save selected mesh name from gizmo manager if available
-          const sceneManager = (window as any).sceneManager
-          if (sceneManager?.gizmoManager?.attachedMesh) {
-            selectedMeshName = sceneManager.gizmoManager.attachedMesh.name
-          }
-          
-          sceneRef.current.dispose()
-        }
+  useImperativeHandle(ref, () => ({
+    run: () => {
+      cancelPendingCompile()
+      setIsExecuting(true)
+      compile(true)
+    },
+    stop: () => {
+      cancelPendingCompile()
+      // Results of a compile that is still in flight are dropped
+      compileIdRef.current++
+      pendingRunIdRef.current = null
+      hasSceneRef.current = false
+      setIsExecuting(false)
+      setError(null)
+      runtime.stop()
+    }
+  }), [compile, runtime, cancelPendingCompile])
 
-        let scene: BABYLON.Scene
-        
-        if (codeToExecute.trim()) {
-          // Execute user code
-          try {
-            // Set up global variables
-            ;(window as any).scene = null
-            ;(window as any).engine = engine
-            ;(window as any).canvas = canvas
-            
-            // Execute the code
-            const userFunction = new Function('BABYLON', 'engine', 'canvas', `
-              ${codeToExecute}
-              
-              // If createScene function exists, call it and return the scene
-              if (typeof createScene === "function") {
-                return createScene();
-              }
-              
-              // Otherwise return the global scene if it was created
-              return window.scene;
-            `)
-            
-            scene = userFunction(BABYLON, engine, canvas)
-            
-            // If no scene was returned, create a default one
-            if (!scene) {
-              scene = new BABYLON.Scene(engine)
-            }
-            
-          } catch (userError) {
-            console.error('Error in user code:', userError)
-            setError(userError instanceof Error ? userError.message : 'Error in user code')
-            
-            // Create fallback scene
-            scene = new BABYLON.Scene(engine)
-            
-            // Add default content for fallback
-            const camera = new BABYLON.FreeCamera("camera1", new BABYLON.Vector3(0, 5, -10), scene)
-            camera.setTarget(BABYLON.Vector3.Zero())
-            camera.attachControl(canvas, true)
-            
-            const light = new BABYLON.HemisphericLight("light", new BABYLON.Vector3(0, 1, 0), scene)
-            light.intensity = 0.7
-          }
-        } else {
-          // Create default scene when no code
-          scene = new BABYLON.Scene(engine)
-          
-          // Add default camera
-          const camera = new BABYLON.FreeCamera("camera1", new BABYLON.Vector3(0, 5, -10), scene)
-          camera.setTarget(BABYLON.Vector3.Zero())
-          camera.attachControl(canvas, true)
-          
-          // Add default light  
-          const light = new BABYLON.HemisphericLight("light", new BABYLON.Vector3(0, 1, 0), scene)
-          light.intensity = 0.7
-          
-          // Add a default sphere
-          const sphere = BABYLON.MeshBuilder.CreateSphere("sphere", {diameter: 2, segments: 32}, scene)
-          sphere.position.y = 1
-          
-          // Add default ground
-          const ground = BABYLON.MeshBuilder.CreateGround("ground", {width: 6, height: 6}, scene)
-        }
-        
-        // Restore camera state if no camera was created by user code and we have saved state
-        if (savedCameraState && (!scene.activeCamera || scene.cameras.length === 0)) {
-          if (savedCameraState.type === 'FreeCamera') {
-            const camera = new BABYLON.FreeCamera("camera1", savedCameraState.position, scene)
-            if (savedCameraState.rotation) {
-              camera.rotation = savedCameraState.rotation
-            }
-            if (savedCameraState.target) {
-              camera.setTarget(savedCameraState.target)
-            }
-            camera.attachControl(canvas, true)
-          } else if (savedCameraState.type === 'ArcRotateCamera' && savedCameraState.target) {
-            const camera = new BABYLON.ArcRotateCamera(
-              "camera1", 
-              savedCameraState.alpha || 0, 
-              savedCameraState.beta || 0, 
-              savedCameraState.radius || 10, 
-              savedCameraState.target, 
-              scene
-            )
-            camera.attachControl(canvas, true)
-          }
-        }
-        
-        sceneRef.current = scene
-        ;(window as any).scene = scene
-        
-        // Inspector is now available via the import
-        // The debug layer will be ready when scene.debugLayer.show() is called
-        
-        // Pass selected mesh name to the scene ready callback for restoration
-        ;(scene as any)._selectedMeshName = selectedMeshName
-        
-        onSceneReady?.(scene)
-
-      } catch (err) {
-        console.error('Error setting up scene:', err)
-        setError(err instanceof Error ? err.message : 'Error setting up 3D scene')
-        onError?.(err instanceof Error ? err : new Error('Unknown error'))
-      } finally {
-        setIsExecuting(false)
-      }
-    }, 300)
-  }
+  // The new sandbox boots empty; bring back the scene that was showing before the switch
+  useEffect(() => {
+    if (previousEngineRef.current === engine) return
+    previousEngineRef.current = engine
 
+    setIsLoading(true)
+    setError(null)
+    if (hasSceneRef.current) {
+      cancelPendingCompile()
+      setIsExecuting(true)
+      compile(true)
+    }
+  }, [engine, compile, cancelPendingCompile])
+
+  // Live mode runs after every pause in typing; manual mode only refreshes the diagnostics
   useEffect(() => {
-    executeCodeWithDelay(code)
-    
-    // Cleanup timeout on unmount
-    return () => {
-      if (debounceTimeoutRef.current) {
-        clearTimeout(debounceTimeoutRef.current)
-      }
+    cancelPendingCompile()
+
+    const live = runMode === 'live'
+    if (live) {
+      setIsExecuting(true)
     }
-  }, [code, onSceneReady, onError])
+
+    debounceTimeoutRef.current = setTimeout(() => compile(live), live ? liveRunDelayMs : DIAGNOSTICS_DELAY_MS)
+
+    // Cleanup timeout on unmount
+    return cancelPendingCompile
+  }, [compile, runMode, liveRunDelayMs, cancelPendingCompile])
 
   return (
     <div className={cn("relative h-full bg-canvas-background", className)}>
-      <canvas 
-        ref={canvasRef}
-        className="w-full h-full block"
-        style={{ 
-          outline: 'none',
-          pointerEvents: 'auto'
-        }}
-        tabIndex={0}
+      <iframe
+        key={`${engine}-${frameKey}`}
+        ref={frameRef}
+        src={SandboxRuntime.getSandboxUrl(engine)}
+        title="Babylon.js scene"
+        // No allow-same-origin: user code must not reach the host window or its storage
+        sandbox="allow-scripts"
+        className="w-full h-full block border-0"
       />
-      
+
       {/* Loading overlay */}
       {isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-canvas-background">
@@ -329,6 +403,45 @@ export function BabylonCanvas({ code, className, onSceneReady, onError }: Babylo
         </div>
       )}
 
+      {/* NullEngine draws nothing, so say why the canvas stays empty */}
+      {engineInfo?.backend === 'null' && !isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <p className="max-w-xs text-center text-sm text-muted-foreground">
+            NullEngine runs the scene without a GPU, so nothing is drawn. Log from the scene code to check its logic in the console.
+          </p>
+        </div>
+      )}
+
+      {!isLoading && (
+        <div className="absolute top-4 left-4 flex items-center gap-2">
+          <PlaybackControls
+            playback={playback}
+            frame={playbackFrame}
+            onChange={handlePlaybackChange}
+            onStep={handleStep}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("h-9 w-9 p-0 bg-card/90 border border-border shadow-md", showStats && "bg-secondary")}
+            onClick={() => setShowStats(show => !show)}
+            title={showStats ? 'Hide stats' : 'Show stats'}
+          >
+            <Activity className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {showStats && !isLoading && (
+        <StatsOverlay
+          samples={statsSamples}
+          onExport={handleExportStats}
+          onClear={() => setStatsSamples([])}
+          onClose={() => setShowStats(false)}
+          className="absolute top-16 right-4"
+        />
+      )}
+
       {/* Executing overlay */}
       {isExecuting && !isLoading && (
         <div className="absolute top-4 right-4 bg-card border border-border rounded-lg p-2 shadow-md">
@@ -339,18 +452,23 @@ export function BabylonCanvas({ code, className, onSceneReady, onError }: Babylo
         </div>
       )}
 
-      {/* Error overlay */}
+      {isAssetDragActive && !isLoading && (
+        <div
+          className="absolute inset-0"
+          onDragOver={handleAssetDragOver}
+          onDrop={handleAssetDrop}
+        />
+      )}
+
+      {/* Error panel */}
       {error && (
-        <div className="absolute inset-0 flex items-center justify-center bg-canvas-background/90">
-          <div className="bg-card border border-destructive/20 rounded-lg p-6 max-w-md mx-4">
-            <h3 className="text-lg font-semibold text-destructive mb-2">Rendering Error</h3>
-            <p className="text-sm text-muted-foreground mb-4">{error}</p>
-            <p className="text-xs text-muted-foreground">
-              Check the console for more details or try running the code again.
-            </p>
-          </div>
-        </div>
+        <ErrorPanel
+          error={error}
+          onDismiss={() => setError(null)}
+          onJumpToLocation={onJumpToLocation}
+          className="absolute bottom-3 left-3 right-3"
+        />
       )}
     </div>
   )
-}
\ No newline at end of file
+})
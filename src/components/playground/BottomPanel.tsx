@@ -0,0 +1,74 @@
+import type { ReactNode } from 'react'
+import { Activity, Terminal, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { cn } from '@/lib/utils'
+
+export type BottomPanelTab = 'console' | 'diagnostics'
+
+interface BottomPanelProps {
+  tab: BottomPanelTab
+  onTabChange: (tab: BottomPanelTab) => void
+  onClose: () => void
+  errorCount?: number
+  issueCount?: number
+  consoleContent: ReactNode
+  diagnosticsContent: ReactNode
+  className?: string
+}
+
+function CountBadge({ count }: { count: number }) {
+  if (count === 0) return null
+  return (
+    <Badge variant="destructive" className="ml-2 h-4 px-1 text-[10px]">
+      {count}
+    </Badge>
+  )
+}
+
+// Dock under the canvas holding the console and the runtime diagnostics
+export function BottomPanel({
+  tab,
+  onTabChange,
+  onClose,
+  errorCount = 0,
+  issueCount = 0,
+  consoleContent,
+  diagnosticsContent,
+  className
+}: BottomPanelProps) {
+  return (
+    <Tabs
+      value={tab}
+      onValueChange={(value) => onTabChange(value as BottomPanelTab)}
+      className={cn("flex flex-col h-full bg-editor-background border-t border-border", className)}
+    >
+      <div className="flex items-center px-2 h-9 border-b border-border shrink-0">
+        <TabsList className="h-7 p-0.5">
+          <TabsTrigger value="console" className="h-6 px-2 text-xs">
+            <Terminal className="w-3.5 h-3.5 mr-1.5" />
+            Console
+            <CountBadge count={errorCount} />
+          </TabsTrigger>
+          <TabsTrigger value="diagnostics" className="h-6 px-2 text-xs">
+            <Activity className="w-3.5 h-3.5 mr-1.5" />
+            Diagnostics
+            <CountBadge count={issueCount} />
+          </TabsTrigger>
+        </TabsList>
+
+        <Button variant="ghost" size="sm" className="h-7 px-2 ml-auto" onClick={onClose} title="Close panel">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <TabsContent value="console" className="flex-1 min-h-0 mt-0">
+        {consoleContent}
+      </TabsContent>
+      <TabsContent value="diagnostics" className="flex-1 min-h-0 mt-0">
+        {diagnosticsContent}
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { Camera, Circle, Square } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import type { ScreenshotOptions } from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+const VIDEO_DURATIONS_S = [3, 5, 10, 30]
+// Larger render targets fail on many GPUs
+const MAX_SCREENSHOT_SIZE = 8192
+
+interface CaptureMenuProps {
+  onScreenshot: (options: ScreenshotOptions) => void
+  onRecordVideo: (durationSeconds: number) => void
+  onStopRecording: () => void
+  onOpenVisualRegression: () => void
+  isRecording?: boolean
+}
+
+function isValidSize(value: number) {
+  return Number.isInteger(value) && value > 0 && value <= MAX_SCREENSHOT_SIZE
+}
+
+export function CaptureMenu({
+  onScreenshot,
+  onRecordVideo,
+  onStopRecording,
+  onOpenVisualRegression,
+  isRecording = false
+}: CaptureMenuProps) {
+  const [isCustomSizeOpen, setIsCustomSizeOpen] = useState(false)
+  const [width, setWidth] = useState('1920')
+  const [height, setHeight] = useState('1080')
+  const [transparent, setTransparent] = useState(false)
+
+  const customSizeValid = isValidSize(Number(width)) && isValidSize(Number(height))
+
+  const handleCustomScreenshot = () => {
+    if (!customSizeValid) return
+    setIsCustomSizeOpen(false)
+    onScreenshot({ width: Number(width), height: Number(height), transparent })
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className={cn(isRecording && "text-destructive")}>
+            {isRecording
+              ? <Circle className="w-4 h-4 mr-2 fill-current animate-pulse" />
+              : <Camera className="w-4 h-4 mr-2" />}
+            {isRecording ? 'Recording' : 'Capture'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Screenshot</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => onScreenshot({})}>
+            At canvas size
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setIsCustomSizeOpen(true)}>
+            At custom size...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onScreenshot({ transparent: true })}>
+            Transparent PNG
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Record WebM</DropdownMenuLabel>
+          {isRecording ? (
+            <DropdownMenuItem onSelect={onStopRecording}>
+              <Square className="w-4 h-4 mr-2" />
+              Stop recording
+            </DropdownMenuItem>
+          ) : (
+            VIDEO_DURATIONS_S.map(seconds => (
+              <DropdownMenuItem key={seconds} onSelect={() => onRecordVideo(seconds)}>
+                {seconds} seconds
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={onOpenVisualRegression}>
+            Visual regression...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCustomSizeOpen} onOpenChange={setIsCustomSizeOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Screenshot size</DialogTitle>
+            <DialogDescription>
+              The scene is rendered again at this size, independent of the canvas.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="screenshot-width">Width</Label>
+              <Input id="screenshot-width" type="number" min={1} max={MAX_SCREENSHOT_SIZE} value={width} onChange={(e) => setWidth(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="screenshot-height">Height</Label>
+              <Input id="screenshot-height" type="number" min={1} max={MAX_SCREENSHOT_SIZE} value={height} onChange={(e) => setHeight(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="screenshot-transparent" checked={transparent} onCheckedChange={setTransparent} />
+            <Label htmlFor="screenshot-transparent">Transparent background</Label>
+          </div>
+          {!customSizeValid && (
+            <p className="text-xs text-destructive">Width and height must be whole numbers up to {MAX_SCREENSHOT_SIZE}.</p>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsCustomSizeOpen(false)}>Cancel</Button>
+            <Button onClick={handleCustomScreenshot} disabled={!customSizeValid}>Take screenshot</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -1,50 +1,136 @@
-import { useRef, useEffect } from 'react'
-import Editor from '@monaco-editor/react'
+import { forwardRef, useRef, useEffect, useImperativeHandle, useState } from 'react'
+import Editor, { Monaco, OnMount } from '@monaco-editor/react'
+import type { editor } from 'monaco-editor'
 import { cn } from '@/lib/utils'
+import { CompileDiagnostic, PLAYGROUND_GLOBALS_DTS } from '@/lib/compiler/types'
+import { BABYLON_DTS_FILE, loadBabylonDeclarations } from '@/lib/compiler/babylon-types'
+import type { CodeLocation } from '@/lib/runtime/protocol'
+import { DEFAULT_SCENE_CODE } from '@/lib/default-scene'
+
+// An error thrown while running the scene, already mapped to an editor position
+export interface RuntimeErrorMarker {
+  message: string
+  location: CodeLocation
+}
 
 interface CodeEditorProps {
   value: string
   onChange: (value: string) => void
   language: 'javascript' | 'typescript'
+  diagnostics?: CompileDiagnostic[]
+  runtimeErrors?: RuntimeErrorMarker[]
+  // Bound to Ctrl/Cmd+Enter
+  onRun?: () => void
+  // Cursor moves made by clicking or navigating, not by typing
+  onCursorLineChange?: (line: number) => void
+  // Bound to Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z; returning false leaves the key to Monaco's own undo
+  onUndo?: () => boolean
+  onRedo?: () => boolean
   className?: string
 }
 
-const defaultBabylonCode = `var createScene = function () {
-    // This creates a basic Babylon Scene object (non-mesh)
-    var scene = new BABYLON.Scene(engine);
+export interface CodeEditorHandle {
+  revealLocation: (line: number, column?: number) => void
+  // Marks the line without moving the cursor; null clears the mark
+  highlightLine: (line: number | null) => void
+}
 
-    // This creates and positions a free camera (non-mesh)
-    var camera = new BABYLON.FreeCamera("camera1", new BABYLON.Vector3(0, 5, -10), scene);
+const MARKER_OWNER = 'playground-compiler'
+const RUNTIME_MARKER_OWNER = 'playground-runtime'
 
-    // This targets the camera to scene origin
-    camera.setTarget(BABYLON.Vector3.Zero());
+function toMarkerSeverity(monaco: Monaco, severity: CompileDiagnostic['severity']) {
+  switch (severity) {
+    case 'error': return monaco.MarkerSeverity.Error
+    case 'warning': return monaco.MarkerSeverity.Warning
+    default: return monaco.MarkerSeverity.Info
+  }
+}
 
-    // This attaches the camera to the canvas
-    camera.attachControl(canvas, true);
+export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEditor(
+  { value, onChange, language, diagnostics, runtimeErrors, onRun, onCursorLineChange, onUndo, onRedo, className },
+  ref
+) {
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null)
+  const highlightRef = useRef<editor.IEditorDecorationsCollection | null>(null)
+  const [monaco, setMonaco] = useState<Monaco | null>(null)
+  // Monaco commands and listeners are registered once, so they call through refs
+  const onRunRef = useRef(onRun)
+  const onCursorLineChangeRef = useRef(onCursorLineChange)
+  const onUndoRef = useRef(onUndo)
+  const onRedoRef = useRef(onRedo)
+  onRunRef.current = onRun
+  onCursorLineChangeRef.current = onCursorLineChange
+  onUndoRef.current = onUndo
+  onRedoRef.current = onRedo
 
-    // This creates a light, aiming 0,1,0 - to the sky (non-mesh)
-    var light = new BABYLON.HemisphericLight("light", new BABYLON.Vector3(0, 1, 0), scene);
+  useImperativeHandle(ref, () => ({
+    revealLocation: (line, column = 1) => {
+      const codeEditor = editorRef.current
+      if (!codeEditor) return
 
-    // Default intensity is 1. Let's dim the light a small amount
-    light.intensity = 0.7;
+      codeEditor.revealLineInCenter(line)
+      codeEditor.setPosition({ lineNumber: line, column })
+      codeEditor.focus()
+    },
+    highlightLine: (line) => {
+      const codeEditor = editorRef.current
+      const model = codeEditor?.getModel()
+      if (!codeEditor || !model) return
 
-    // Our built-in 'sphere' shape.
-    var sphere = BABYLON.MeshBuilder.CreateSphere("sphere", {diameter: 2, segments: 32}, scene);
+      if (line === null || line > model.getLineCount()) {
+        highlightRef.current?.clear()
+        return
+      }
+      codeEditor.revealLineInCenterIfOutsideViewport(line)
+      highlightRef.current?.set([{
+        range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+        options: { isWholeLine: true, className: 'editor-creation-line' }
+      }])
+    }
+  }), [])
 
-    // Move the sphere upward 1/2 its height
-    sphere.position.y = 1;
+  // Diagnostics come from the compiler worker, not from Monaco's own language service
+  useEffect(() => {
+    const model = editorRef.current?.getModel()
+    if (!monaco || !model) return
 
-    // Our built-in 'ground' shape.
-    var ground = BABYLON.MeshBuilder.CreateGround("ground", {width: 6, height: 6}, scene);
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, (diagnostics ?? []).map(diagnostic => ({
+      message: diagnostic.message,
+      severity: toMarkerSeverity(monaco, diagnostic.severity),
+      code: String(diagnostic.code),
+      startLineNumber: diagnostic.startLineNumber,
+      startColumn: diagnostic.startColumn,
+      endLineNumber: diagnostic.endLineNumber,
+      endColumn: Math.max(diagnostic.endColumn, diagnostic.startColumn + 1)
+    })))
+  }, [monaco, diagnostics, language])
 
-    return scene;
-};`
+  // Runtime errors only know where they were thrown, so underline from there to the end of the line
+  useEffect(() => {
+    const model = editorRef.current?.getModel()
+    if (!monaco || !model) return
 
-export function CodeEditor({ value, onChange, language, className }: CodeEditorProps) {
-  const editorRef = useRef<any>(null)
+    const lineCount = model.getLineCount()
+    monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, (runtimeErrors ?? [])
+      .filter(error => error.location.line <= lineCount)
+      .map(error => {
+        const { line, column } = error.location
+        const endColumn = model.getLineMaxColumn(line)
+        return {
+          message: error.message,
+          severity: monaco.MarkerSeverity.Error,
+          source: 'runtime',
+          startLineNumber: line,
+          startColumn: Math.min(column, endColumn - 1) || 1,
+          endLineNumber: line,
+          endColumn
+        }
+      }))
+  }, [monaco, runtimeErrors, language])
 
-  const handleEditorDidMount = (editor: any, monaco: any) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor
+    setMonaco(monaco)
 
     // Configure Monaco theme
     monaco.editor.defineTheme('babylon-dark', {
@@ -80,23 +166,53 @@ export function CodeEditor({ value, onChange, language, className }: CodeEditorP
 
     monaco.editor.setTheme('babylon-dark')
 
+    // Replaces Monaco's default "insert line below" binding
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => onRunRef.current?.())
+
+    // Typing is undone by Monaco; the playground's history takes over once the code is back to
+    // its last recorded step. Redo stays with Monaco while it has typing to redo.
+    let hasTypingToRedo = false
+    editor.onDidChangeModelContent(event => {
+      if (!event.isUndoing && !event.isRedoing) hasTypingToRedo = false
+    })
+    const undo = () => {
+      if (onUndoRef.current?.()) return
+      editor.trigger('keyboard', 'undo', null)
+      hasTypingToRedo = true
+    }
+    const redo = () => {
+      if (!hasTypingToRedo && onRedoRef.current?.()) return
+      editor.trigger('keyboard', 'redo', null)
+    }
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ, undo)
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ, redo)
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyY, redo)
+
+    highlightRef.current = editor.createDecorationsCollection()
+    editor.onDidChangeCursorPosition(event => {
+      if (event.reason === monaco.editor.CursorChangeReason.Explicit) {
+        onCursorLineChangeRef.current?.(event.position.lineNumber)
+      }
+    })
+
     // Add Babylon.js global types
-    monaco.languages.typescript.javascriptDefaults.addExtraLib(`
-      declare var BABYLON: any;
-      declare var engine: any;
-      declare var canvas: any;
-      declare var scene: any;
-    `, 'babylon.d.ts')
-
-    monaco.languages.typescript.typescriptDefaults.addExtraLib(`
-      declare var BABYLON: any;
-      declare var engine: any;
-      declare var canvas: any;
-      declare var scene: any;
-    `, 'babylon.d.ts')
+    monaco.languages.typescript.javascriptDefaults.addExtraLib(PLAYGROUND_GLOBALS_DTS, 'playground-globals.d.ts')
+    monaco.languages.typescript.typescriptDefaults.addExtraLib(PLAYGROUND_GLOBALS_DTS, 'playground-globals.d.ts')
+
+    loadBabylonDeclarations()
+      .then(declarations => {
+        monaco.languages.typescript.javascriptDefaults.addExtraLib(declarations, BABYLON_DTS_FILE)
+        monaco.languages.typescript.typescriptDefaults.addExtraLib(declarations, BABYLON_DTS_FILE)
+      })
+      .catch(error => console.error('Failed to load Babylon.js typings:', error))
+
+    // Avoid duplicate squiggles next to the compiler's markers
+    const diagnosticsOptions = { noSemanticValidation: true, noSyntaxValidation: true }
+    monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions(diagnosticsOptions)
+    monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions(diagnosticsOptions)
   }
 
-  const displayValue = value || defaultBabylonCode
+  const displayValue = value || DEFAULT_SCENE_CODE
 
   return (
     <div className={cn("h-full bg-editor-background", className)}>
@@ -144,4 +260,4 @@ export function CodeEditor({ value, onChange, language, className }: CodeEditorP
       />
     </div>
   )
-}
\ No newline at end of file
+})
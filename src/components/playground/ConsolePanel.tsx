@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Info,
+  Trash2,
+  XCircle
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import type {
+  CodeLocation,
+  ConsoleEntry,
+  ConsoleLevel,
+  InspectedProperty,
+  InspectedValue
+} from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+type InspectObject = (objectId: number) => Promise<{ properties: InspectedProperty[]; truncated: boolean }>
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[]
+  clearOnRun: boolean
+  onClearOnRunChange: (clearOnRun: boolean) => void
+  onClear: () => void
+  onJumpToLocation: (location: CodeLocation) => void
+  onInspect: InspectObject
+  className?: string
+}
+
+type LevelFilter = 'all' | ConsoleLevel
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-foreground',
+  info: 'text-primary',
+  warn: 'text-warning bg-warning/10',
+  error: 'text-destructive bg-destructive/10'
+}
+
+function LevelIcon({ level }: { level: ConsoleLevel }) {
+  switch (level) {
+    case 'info': return <Info className="w-3.5 h-3.5 shrink-0" />
+    case 'warn': return <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+    case 'error': return <XCircle className="w-3.5 h-3.5 shrink-0" />
+    default: return <span className="w-3.5 h-3.5 shrink-0" />
+  }
+}
+
+function valueText(value: InspectedValue) {
+  return value.text
+}
+
+function matchesLevel(entry: ConsoleEntry, filter: LevelFilter) {
+  if (filter === 'all') return true
+  // Info messages are grouped with plain logs
+  if (filter === 'log') return entry.level === 'log' || entry.level === 'info'
+  return entry.level === filter
+}
+
+function ValueView({ value, onInspect, nested = false }: { value: InspectedValue; onInspect: InspectObject; nested?: boolean }) {
+  const [expanded, setExpanded] = useState(false)
+  const [properties, setProperties] = useState<InspectedProperty[] | null>(null)
+  const [truncated, setTruncated] = useState(false)
+
+  if (value.kind === 'primitive') {
+    // Top-level strings print as-is, like the browser console
+    if (value.type === 'string' && !nested) {
+      return <span className="whitespace-pre-wrap break-words">{value.text}</span>
+    }
+    return (
+      <span className={cn(
+        value.type === 'string' && 'text-[#CE9178]',
+        (value.type === 'number' || value.type === 'bigint') && 'text-[#B5CEA8]',
+        value.type === 'boolean' && 'text-[#569CD6]',
+        (value.type === 'undefined' || value.type === 'null') && 'text-muted-foreground'
+      )}>
+        {value.type === 'string' ? JSON.stringify(value.text) : value.text}
+      </span>
+    )
+  }
+
+  if (value.kind === 'function') {
+    return <span className="italic text-[#DCDCAA]">{value.text}</span>
+  }
+
+  if (value.kind === 'error') {
+    return (
+      <span className="whitespace-pre-wrap break-words">
+        {value.stack && value.stack.includes(value.text) ? value.stack : value.text}
+      </span>
+    )
+  }
+
+  const toggle = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (!expanded && properties === null) {
+      try {
+        const result = await onInspect(value.objectId)
+        setProperties(result.properties)
+        setTruncated(result.truncated)
+      } catch {
+        setProperties([])
+      }
+    }
+    setExpanded(!expanded)
+  }
+
+  return (
+    <span className="inline-block align-top">
+      <button
+        type="button"
+        onClick={toggle}
+        className="inline-flex items-center gap-0.5 text-left hover:text-foreground text-[#9CDCFE]"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {value.text}
+      </button>
+      {expanded && properties && (
+        <div className="pl-4 border-l border-border ml-1">
+          {properties.length === 0 && (
+            <div className="text-muted-foreground italic">No properties</div>
+          )}
+          {properties.map(property => (
+            <div key={property.key}>
+              <span className="text-[#C586C0]">{property.key}</span>
+              <span className="text-muted-foreground">: </span>
+              <ValueView value={property.value} onInspect={onInspect} nested />
+            </div>
+          ))}
+          {truncated && <div className="text-muted-foreground italic">…</div>}
+        </div>
+      )}
+    </span>
+  )
+}
+
+export function ConsolePanel({
+  entries,
+  clearOnRun,
+  onClearOnRunChange,
+  onClear,
+  onJumpToLocation,
+  onInspect,
+  className
+}: ConsolePanelProps) {
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const stickToBottomRef = useRef(true)
+
+  const counts = useMemo(() => {
+    return entries.reduce((totals, entry) => {
+      totals[entry.level] += 1
+      return totals
+    }, { log: 0, info: 0, warn: 0, error: 0 } as Record<ConsoleLevel, number>)
+  }, [entries])
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return entries.filter(entry =>
+      matchesLevel(entry, levelFilter) &&
+      (!term || entry.args.map(valueText).join(' ').toLowerCase().includes(term))
+    )
+  }, [entries, levelFilter, searchTerm])
+
+  // Keep following new output unless the user scrolled up
+  useEffect(() => {
+    const container = scrollRef.current
+    if (container && stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight
+    }
+  }, [filteredEntries])
+
+  const handleScroll = () => {
+    const container = scrollRef.current
+    if (!container) return
+    stickToBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 24
+  }
+
+  return (
+    <div className={cn("flex flex-col h-full bg-editor-background", className)}>
+      <div className="flex items-center gap-2 px-3 h-10 border-b border-border shrink-0">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={levelFilter}
+          onValueChange={(value) => value && setLevelFilter(value as LevelFilter)}
+        >
+          <ToggleGroupItem value="all" className="h-7 px-2 text-xs">All</ToggleGroupItem>
+          <ToggleGroupItem value="log" className="h-7 px-2 text-xs">Logs {counts.log + counts.info || ''}</ToggleGroupItem>
+          <ToggleGroupItem value="warn" className="h-7 px-2 text-xs">Warnings {counts.warn || ''}</ToggleGroupItem>
+          <ToggleGroupItem value="error" className="h-7 px-2 text-xs">Errors {counts.error || ''}</ToggleGroupItem>
+        </ToggleGroup>
+
+        <Input
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Filter output..."
+          className="h-7 max-w-48 text-xs"
+        />
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch id="console-clear-on-run" checked={clearOnRun} onCheckedChange={onClearOnRunChange} />
+          <Label htmlFor="console-clear-on-run" className="text-xs text-muted-foreground whitespace-nowrap">
+            Clear on run
+          </Label>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClear} title="Clear console">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-auto custom-scrollbar font-mono text-xs"
+      >
+        {filteredEntries.length === 0 && (
+          <div className="p-3 text-muted-foreground">No console output</div>
+        )}
+        {filteredEntries.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => entry.level === 'error' && entry.location && onJumpToLocation(entry.location)}
+            className={cn(
+              "flex items-start gap-2 px-3 py-1 border-b border-border/50",
+              LEVEL_STYLES[entry.level],
+              entry.level === 'error' && entry.location && "cursor-pointer hover:bg-destructive/20"
+            )}
+          >
+            <span className="text-muted-foreground shrink-0">{format(entry.timestamp, 'HH:mm:ss.SSS')}</span>
+            <LevelIcon level={entry.level} />
+            <div className="flex-1 min-w-0 flex flex-wrap gap-x-2">
+              {entry.args.map((arg, index) => (
+                <ValueView key={index} value={arg} onInspect={onInspect} />
+              ))}
+            </div>
+            {entry.location && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onJumpToLocation(entry.location!)
+                }}
+                className="shrink-0 text-muted-foreground hover:text-foreground underline-offset-2 hover:underline"
+              >
+                line {entry.location.line}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
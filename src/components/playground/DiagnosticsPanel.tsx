@@ -0,0 +1,82 @@
+import { format } from 'date-fns'
+import { AlertTriangle, CheckCircle2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { ResourceKind, ResourceReport } from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+interface DiagnosticsPanelProps {
+  reports: ResourceReport[]
+  onClear: () => void
+  className?: string
+}
+
+const RESOURCE_LABELS: Record<ResourceKind, [singular: string, plural: string]> = {
+  'render-loop': ['render loop', 'render loops'],
+  timeout: ['timeout', 'timeouts'],
+  interval: ['interval', 'intervals'],
+  'animation-frame': ['animation frame', 'animation frames'],
+  'event-listener': ['event listener', 'event listeners'],
+  'engine-observer': ['engine observer', 'engine observers'],
+  texture: ['texture', 'textures'],
+  'post-process': ['post-process', 'post-processes'],
+  global: ['global', 'globals']
+}
+
+function describeCount(kind: ResourceKind, count: number) {
+  const [singular, plural] = RESOURCE_LABELS[kind]
+  return `${count} ${count === 1 ? singular : plural}`
+}
+
+// What each run left behind outside its scene, newest first
+export function DiagnosticsPanel({ reports, onClear, className }: DiagnosticsPanelProps) {
+  const newestFirst = [...reports].reverse()
+
+  return (
+    <div className={cn("flex flex-col h-full bg-editor-background", className)}>
+      <div className="flex items-center gap-2 px-3 h-10 border-b border-border shrink-0">
+        <span className="text-xs text-muted-foreground">
+          Resources released between runs. Anything listed as not reclaimed is still holding memory.
+        </span>
+        <Button variant="ghost" size="sm" className="h-7 px-2 ml-auto" onClick={onClear} title="Clear reports">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar text-xs">
+        {newestFirst.length === 0 && (
+          <div className="p-3 text-muted-foreground">No leftovers from previous runs</div>
+        )}
+        {newestFirst.map(report => (
+          <div key={`${report.runId}-${report.timestamp}`} className="px-3 py-2 border-b border-border/50">
+            <div className="flex items-center gap-2 mb-1">
+              {report.unreclaimed.length > 0
+                ? <AlertTriangle className="w-3.5 h-3.5 text-warning" />
+                : <CheckCircle2 className="w-3.5 h-3.5 text-success" />}
+              <span className="font-medium">Run #{report.runId}</span>
+              <span className="text-muted-foreground font-mono">{format(report.timestamp, 'HH:mm:ss')}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-1 pl-5">
+              {(Object.entries(report.reclaimed) as [ResourceKind, number][]).map(([kind, count]) => (
+                <Badge key={kind} variant="secondary" className="text-[10px] font-normal">
+                  {describeCount(kind, count)} reclaimed
+                </Badge>
+              ))}
+            </div>
+
+            {report.unreclaimed.length > 0 && (
+              <ul className="pl-5 mt-1 space-y-0.5">
+                {report.unreclaimed.map((resource, index) => (
+                  <li key={index} className="text-warning">
+                    Not reclaimed ({RESOURCE_LABELS[resource.kind][0]}): {resource.description}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
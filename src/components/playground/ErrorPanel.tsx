@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, X, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import type { CodeLocation, StackFrame } from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+export interface PlaygroundError {
+  title: string
+  message: string
+  location?: CodeLocation
+  // Only runtime errors have a stack; compile errors just point at a line
+  frames?: StackFrame[]
+}
+
+interface ErrorPanelProps {
+  error: PlaygroundError
+  onDismiss: () => void
+  onJumpToLocation?: (location: CodeLocation) => void
+  className?: string
+}
+
+// Docked under the scene instead of covering it, so the last good frame stays visible
+export function ErrorPanel({ error, onDismiss, onJumpToLocation, className }: ErrorPanelProps) {
+  const [showStack, setShowStack] = useState(false)
+  const frames = error.frames ?? []
+
+  return (
+    <Collapsible
+      open={showStack}
+      onOpenChange={setShowStack}
+      className={cn("bg-card/95 border border-destructive/40 rounded-lg shadow-md text-sm", className)}
+    >
+      <div className="flex items-start gap-2 p-3">
+        <XCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-destructive">{error.title}</h3>
+          <p className="text-muted-foreground break-words">{error.message}</p>
+        </div>
+
+        {error.location && onJumpToLocation && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onJumpToLocation(error.location!)}
+          >
+            Line {error.location.line}
+          </Button>
+        )}
+
+        {frames.length > 0 && (
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+              {showStack ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+              Stack trace
+            </Button>
+          </CollapsibleTrigger>
+        )}
+
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onDismiss} title="Dismiss">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <CollapsibleContent>
+        <div className="max-h-48 overflow-auto custom-scrollbar border-t border-border px-3 py-2 font-mono text-xs">
+          {frames.map((frame, index) => frame.location ? (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onJumpToLocation?.(frame.location!)}
+              className="block text-left text-foreground hover:underline"
+            >
+              at {frame.functionName ?? '<anonymous>'} (line {frame.location.line}:{frame.location.column})
+            </button>
+          ) : (
+            <div key={index} className="text-muted-foreground truncate">{frame.text}</div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import type { SceneExportFormat, SceneExportOptions } from '@/lib/runtime/protocol'
+
+export type SceneExportSettings = Omit<SceneExportOptions, 'format' | 'fileName'>
+
+const SCENE_FORMATS: { format: SceneExportFormat; label: string }[] = [
+  { format: 'glb', label: 'GLB (.glb)' },
+  { format: 'gltf', label: 'glTF + bin (.gltf)' },
+  { format: 'babylon', label: 'Babylon (.babylon)' }
+]
+
+interface ExportMenuProps {
+  language: 'javascript' | 'typescript'
+  onDownloadCode: () => void
+  onExportScene: (format: SceneExportFormat, settings: SceneExportSettings) => void
+  isExporting?: boolean
+}
+
+export function ExportMenu({ language, onDownloadCode, onExportScene, isExporting = false }: ExportMenuProps) {
+  const [settings, setSettings] = useState<SceneExportSettings>({
+    excludeGround: false,
+    excludeUtilityMeshes: true,
+    selectedOnly: false
+  })
+
+  const toggle = (key: keyof SceneExportSettings) => (checked: boolean) => {
+    setSettings(current => ({ ...current, [key]: checked }))
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isExporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Download'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuItem onSelect={onDownloadCode}>
+          Code ({language === 'typescript' ? '.ts' : '.js'})
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Export scene</DropdownMenuLabel>
+        {SCENE_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => onExportScene(format, settings)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {/* Keep the menu open while options are toggled */}
+        <DropdownMenuCheckboxItem
+          checked={settings.excludeGround}
+          onCheckedChange={toggle('excludeGround')}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Exclude ground
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={settings.excludeUtilityMeshes}
+          onCheckedChange={toggle('excludeUtilityMeshes')}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Exclude gizmo and helper meshes
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={settings.selectedOnly}
+          onCheckedChange={toggle('selectedOnly')}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Selected mesh only
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
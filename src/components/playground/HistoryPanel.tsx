@@ -0,0 +1,108 @@
+import {
+  Code,
+  FilePlus2,
+  LucideIcon,
+  Move3D,
+  Pencil,
+  Redo2,
+  SlidersHorizontal,
+  Trash2,
+  Undo2
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { HISTORY_SHORTCUT_LABELS } from '@/lib/code-history'
+import type { HistoryEntryKind } from '@/lib/code-history'
+import type { CodeHistory } from '@/hooks/use-code-history'
+import { cn } from '@/lib/utils'
+
+const KIND_ICONS: Record<HistoryEntryKind, LucideIcon> = {
+  transform: Move3D,
+  insert: FilePlus2,
+  delete: Trash2,
+  property: SlidersHorizontal,
+  replace: Code,
+  typing: Pencil
+}
+
+interface HistoryPanelProps {
+  history: CodeHistory
+  className?: string
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+// Newest step on top. Clicking a step goes back to the code right after it; steps above
+// the current one stay listed, dimmed, until a new step replaces them.
+export function HistoryPanel({ history, className }: HistoryPanelProps) {
+  const { entries, position } = history
+  const rows = entries.map((entry, index) => ({ entry, target: index + 1 })).reverse()
+
+  return (
+    <div className={cn("flex flex-col h-full bg-editor-background", className)}>
+      <div className="flex items-center gap-1 px-3 h-10 border-b border-border shrink-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={!history.canUndo}
+          onClick={history.undo}
+          title={`Undo (${HISTORY_SHORTCUT_LABELS.undo})`}
+        >
+          <Undo2 className="w-3.5 h-3.5 mr-1.5" />
+          Undo
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={!history.canRedo}
+          onClick={history.redo}
+          title={`Redo (${HISTORY_SHORTCUT_LABELS.redo})`}
+        >
+          <Redo2 className="w-3.5 h-3.5 mr-1.5" />
+          Redo
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar text-xs p-1">
+        {entries.length === 0 && (
+          <div className="p-2 text-muted-foreground">
+            Viewport edits, inserted assets and cleared code show up here
+          </div>
+        )}
+        {rows.map(({ entry, target }) => {
+          const Icon = KIND_ICONS[entry.kind]
+          return (
+            <button
+              key={entry.id}
+              onClick={() => history.jumpTo(target)}
+              className={cn(
+                "flex items-center gap-2 w-full h-7 px-2 rounded-sm text-left",
+                target === position ? "bg-primary/20 text-foreground" : "hover:bg-muted/50",
+                target > position && "opacity-50"
+              )}
+            >
+              <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+              <span className="flex-1 min-w-0 truncate" title={entry.label}>{entry.label}</span>
+              <span className="text-[10px] text-muted-foreground">{formatTime(entry.timestamp)}</span>
+            </button>
+          )
+        })}
+        {entries.length > 0 && (
+          <button
+            onClick={() => history.jumpTo(0)}
+            className={cn(
+              "flex items-center gap-2 w-full h-7 px-2 rounded-sm text-left text-muted-foreground",
+              position === 0 ? "bg-primary/20 text-foreground" : "hover:bg-muted/50"
+            )}
+          >
+            <span className="w-3.5 shrink-0" />
+            Start
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
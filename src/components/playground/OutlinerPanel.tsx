@@ -0,0 +1,277 @@
+import { useMemo, useState } from 'react'
+import type { DragEvent, KeyboardEvent } from 'react'
+import {
+  Axis3d,
+  Box,
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  Lightbulb,
+  Lock,
+  LockOpen,
+  LucideIcon,
+  Palette,
+  Trash2,
+  Video
+} from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import type { OutlineNode, SceneNodeChange, SceneObjectKind, SceneObjectRef } from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+const NODE_DRAG_TYPE = 'application/x-playground-scene-node'
+const INDENT_PX = 14
+
+const KIND_ICONS: Record<SceneObjectKind, LucideIcon> = {
+  mesh: Box,
+  'transform-node': Axis3d,
+  light: Lightbulb,
+  camera: Video,
+  material: Palette
+}
+
+interface OutlinerPanelProps {
+  nodes: OutlineNode[]
+  selected: SceneObjectRef | null
+  onSelect: (node: OutlineNode) => void
+  onChange: (node: OutlineNode, change: SceneNodeChange) => void
+  className?: string
+}
+
+function isSelected(node: OutlineNode, selected: SceneObjectRef | null) {
+  return selected !== null && selected.kind === node.kind && selected.name === node.name
+}
+
+// Whether the node is the ancestor or one of its descendants
+function isWithin(node: OutlineNode, ancestorId: number, byId: Map<number, OutlineNode>) {
+  for (let current: OutlineNode | undefined = node; current; current = byId.get(current.parentId ?? -1)) {
+    if (current.id === ancestorId) return true
+  }
+  return false
+}
+
+// The running scene's nodes as a tree, with its materials below them. Dropping a row on
+// another makes it a child of that row; dropping it on the empty area moves it to the top.
+export function OutlinerPanel({ nodes, selected, onSelect, onChange, className }: OutlinerPanelProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(() => new Set())
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null)
+  const [draggedId, setDraggedId] = useState<number | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<number | 'root' | null>(null)
+
+  const { byId, children, roots, materials } = useMemo(() => {
+    const byId = new Map(nodes.map(node => [node.id, node]))
+    const children = new Map<number, OutlineNode[]>()
+    const roots: OutlineNode[] = []
+    nodes.filter(node => node.kind !== 'material').forEach(node => {
+      const parent = node.parentId !== null ? byId.get(node.parentId) : undefined
+      if (parent) {
+        children.set(parent.id, [...(children.get(parent.id) ?? []), node])
+      } else {
+        roots.push(node)
+      }
+    })
+    return { byId, children, roots, materials: nodes.filter(node => node.kind === 'material') }
+  }, [nodes])
+
+  const dragged = draggedId !== null ? byId.get(draggedId) : undefined
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(previous => {
+      const next = new Set(previous)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const commitRename = () => {
+    const node = editing && byId.get(editing.id)
+    const name = editing?.name.trim()
+    if (node && name && name !== node.name) {
+      onChange(node, { kind: 'rename', name })
+    }
+    setEditing(null)
+  }
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') commitRename()
+    if (event.key === 'Escape') setEditing(null)
+  }
+
+  const endDrag = () => {
+    setDraggedId(null)
+    setDropTargetId(null)
+  }
+
+  const canDropOn = (target: OutlineNode) =>
+    dragged !== undefined && target.kind !== 'material' && !isWithin(target, dragged.id, byId) && dragged.parentId !== target.id
+
+  const handleRowDragOver = (event: DragEvent, target: OutlineNode) => {
+    if (!event.dataTransfer.types.includes(NODE_DRAG_TYPE)) return
+    event.stopPropagation()
+    if (!canDropOn(target)) {
+      setDropTargetId(null)
+      return
+    }
+    event.preventDefault()
+    setDropTargetId(target.id)
+  }
+
+  const handleRowDrop = (event: DragEvent, target: OutlineNode) => {
+    event.preventDefault()
+    event.stopPropagation()
+    if (dragged && canDropOn(target)) {
+      onChange(dragged, { kind: 'parent', parentId: target.id })
+    }
+    endDrag()
+  }
+
+  const handleRootDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes(NODE_DRAG_TYPE) || dragged?.parentId === null) return
+    event.preventDefault()
+    setDropTargetId('root')
+  }
+
+  const handleRootDrop = (event: DragEvent) => {
+    event.preventDefault()
+    if (dragged && dragged.parentId !== null) {
+      onChange(dragged, { kind: 'parent', parentId: null })
+    }
+    endDrag()
+  }
+
+  const renderRow = (node: OutlineNode, depth: number) => {
+    const Icon = KIND_ICONS[node.kind]
+    const nodeChildren = children.get(node.id) ?? []
+    const isCollapsed = collapsed.has(node.id)
+    const isMaterial = node.kind === 'material'
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable={!isMaterial && editing?.id !== node.id}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(NODE_DRAG_TYPE, String(node.id))
+            event.dataTransfer.effectAllowed = 'move'
+            setDraggedId(node.id)
+          }}
+          onDragEnd={endDrag}
+          onDragOver={(event) => handleRowDragOver(event, node)}
+          onDragLeave={() => setDropTargetId(current => (current === node.id ? null : current))}
+          onDrop={(event) => handleRowDrop(event, node)}
+          onClick={() => onSelect(node)}
+          onDoubleClick={() => setEditing({ id: node.id, name: node.name })}
+          className={cn(
+            "group flex items-center gap-1 h-7 pr-1 rounded-sm cursor-default select-none",
+            isSelected(node, selected) ? "bg-primary/20 text-foreground" : "hover:bg-muted/50",
+            dropTargetId === node.id && "ring-1 ring-primary",
+            !node.enabled && "opacity-50"
+          )}
+          style={{ paddingLeft: depth * INDENT_PX + 4 }}
+        >
+          {nodeChildren.length > 0 ? (
+            <button
+              className="p-0.5 text-muted-foreground hover:text-foreground"
+              onClick={(event) => {
+                event.stopPropagation()
+                toggleCollapsed(node.id)
+              }}
+              title={isCollapsed ? "Expand" : "Collapse"}
+            >
+              {isCollapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            </button>
+          ) : (
+            <span className="w-[18px] shrink-0" />
+          )}
+          <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+
+          {editing?.id === node.id ? (
+            <Input
+              autoFocus
+              value={editing.name}
+              onChange={(event) => setEditing({ id: node.id, name: event.target.value })}
+              onBlur={commitRename}
+              onKeyDown={handleRenameKeyDown}
+              onClick={(event) => event.stopPropagation()}
+              className="h-6 px-1 py-0 text-xs"
+            />
+          ) : (
+            <span className="flex-1 min-w-0 truncate" title={node.name}>{node.name || '(unnamed)'}</span>
+          )}
+
+          {node.pickable !== null && (
+            <button
+              className={cn(
+                "p-0.5 text-muted-foreground hover:text-foreground",
+                node.pickable && "opacity-0 group-hover:opacity-100"
+              )}
+              onClick={(event) => {
+                event.stopPropagation()
+                onChange(node, { kind: 'pickable', pickable: !node.pickable })
+              }}
+              title={node.pickable ? "Lock against picking in the viewport" : "Allow picking in the viewport"}
+            >
+              {node.pickable ? <LockOpen className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+            </button>
+          )}
+          {!isMaterial && (
+            <button
+              className={cn(
+                "p-0.5 text-muted-foreground hover:text-foreground",
+                node.enabled && "opacity-0 group-hover:opacity-100"
+              )}
+              onClick={(event) => {
+                event.stopPropagation()
+                onChange(node, { kind: 'enabled', enabled: !node.enabled })
+              }}
+              title={node.enabled ? "Hide" : "Show"}
+            >
+              {node.enabled ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+          )}
+          <button
+            className="p-0.5 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100"
+            onClick={(event) => {
+              event.stopPropagation()
+              onChange(node, { kind: 'delete' })
+            }}
+            title="Delete"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {!isCollapsed && nodeChildren.map(child => renderRow(child, depth + 1))}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("flex flex-col h-full bg-editor-background", className)}>
+      <div className="flex items-center px-3 h-10 border-b border-border shrink-0">
+        <span className="text-xs text-muted-foreground">
+          Double-click to rename, drag onto another row to parent. Changes are written into the code and can be undone.
+        </span>
+      </div>
+
+      <div
+        className={cn("flex-1 overflow-auto custom-scrollbar text-xs p-1", dropTargetId === 'root' && "bg-primary/5")}
+        onDragOver={handleRootDragOver}
+        onDragLeave={() => setDropTargetId(current => (current === 'root' ? null : current))}
+        onDrop={handleRootDrop}
+      >
+        {nodes.length === 0 && (
+          <div className="p-2 text-muted-foreground">Run the scene to see its objects</div>
+        )}
+        {roots.map(node => renderRow(node, 0))}
+        {materials.length > 0 && (
+          <>
+            <div className="px-2 pt-3 pb-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+              Materials
+            </div>
+            {materials.map(node => renderRow(node, 0))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
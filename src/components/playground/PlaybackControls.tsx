@@ -0,0 +1,89 @@
+import { Pause, Play, StepForward, Timer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import {
+  MAX_TIME_SCALE,
+  MIN_TIME_SCALE,
+  PLAYBACK_SHORTCUT_LABELS,
+  PlaybackState
+} from '@/lib/runtime/playback'
+import { cn } from '@/lib/utils'
+
+interface PlaybackControlsProps {
+  playback: PlaybackState
+  // Reported by the sandbox while paused
+  frame: number | null
+  onChange: (playback: PlaybackState) => void
+  onStep: () => void
+  className?: string
+}
+
+function formatTimeScale(timeScale: number) {
+  return `${Number(timeScale.toFixed(2))}x`
+}
+
+// Pause, single-step and time scaling for the scene's render loop
+export function PlaybackControls({ playback, frame, onChange, onStep, className }: PlaybackControlsProps) {
+  const { paused, timeScale, fixedTimestep } = playback
+
+  return (
+    <div className={cn("flex items-center gap-1 bg-card/90 border border-border rounded-lg p-1 shadow-md", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        onClick={() => onChange({ ...playback, paused: !paused })}
+        title={`${paused ? 'Resume' : 'Pause'} (${PLAYBACK_SHORTCUT_LABELS['toggle-pause']})`}
+      >
+        {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        onClick={onStep}
+        title={`Advance one frame (${PLAYBACK_SHORTCUT_LABELS.step})`}
+      >
+        <StepForward className="w-4 h-4" />
+      </Button>
+
+      <div
+        className="flex items-center gap-2 px-2"
+        title={`Time scale (${PLAYBACK_SHORTCUT_LABELS.slower} slower, ${PLAYBACK_SHORTCUT_LABELS.faster} faster)`}
+      >
+        <Slider
+          value={[timeScale]}
+          min={MIN_TIME_SCALE}
+          max={MAX_TIME_SCALE}
+          step={0.05}
+          onValueChange={([value]) => onChange({ ...playback, timeScale: value })}
+          className="w-24"
+        />
+        <button
+          type="button"
+          className="w-10 text-xs font-mono text-muted-foreground hover:text-foreground text-right"
+          onClick={() => onChange({ ...playback, timeScale: 1 })}
+          title="Reset to normal speed"
+        >
+          {formatTimeScale(timeScale)}
+        </button>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 px-2 text-xs", fixedTimestep && "bg-secondary text-foreground")}
+        onClick={() => onChange({ ...playback, fixedTimestep: !fixedTimestep })}
+        title={`Fixed timestep: every frame advances 16 ms, so runs repeat exactly (${PLAYBACK_SHORTCUT_LABELS['toggle-fixed-timestep']})`}
+      >
+        <Timer className="w-4 h-4 mr-1" />
+        Fixed
+      </Button>
+
+      {paused && frame !== null && (
+        <span className="px-2 text-xs font-mono text-muted-foreground">Frame {frame}</span>
+      )}
+    </div>
+  )
+}
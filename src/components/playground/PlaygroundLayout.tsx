@@ -1,38 +1,251 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { PlaygroundToolbar } from './PlaygroundToolbar'
-import { CodeEditor } from './CodeEditor'
-import { BabylonCanvas } from './BabylonCanvas'
+import { CodeEditor, CodeEditorHandle, RuntimeErrorMarker } from './CodeEditor'
+import { BabylonCanvas, BabylonCanvasHandle, SceneReadyEvent } from './BabylonCanvas'
 import { AssetsPanel } from './AssetsPanel'
-import { useSceneManager } from './SceneManager'
+import { OutlinerPanel } from './OutlinerPanel'
+import { PropertiesPanel } from './PropertiesPanel'
+import { HistoryPanel } from './HistoryPanel'
+import { SidePanel, SidePanelTab } from './SidePanel'
+import { ConsolePanel } from './ConsolePanel'
+import { DiagnosticsPanel } from './DiagnosticsPanel'
+import { BottomPanel, BottomPanelTab } from './BottomPanel'
+import { VisualRegressionDialog } from './VisualRegressionDialog'
+import { AssetManagerDialog } from './AssetManagerDialog'
+import type { SceneExportSettings } from './ExportMenu'
+import { useSandboxRuntime } from '@/hooks/use-sandbox-runtime'
+import { useVisualRegression } from '@/hooks/use-visual-regression'
+import { useAssetStore } from '@/hooks/use-asset-store'
+import { useSceneCodeSync } from '@/hooks/use-scene-code-sync'
+import { useCodeHistory } from '@/hooks/use-code-history'
 import { PlaygroundStorage, PlaygroundScene } from '@/lib/supabase'
+import { PlaygroundSettings, SettingsStorage } from '@/lib/settings'
+import type { CompileDiagnostic } from '@/lib/compiler/types'
+import type {
+  CanvasPoint,
+  CodeLocation,
+  ConsoleEntry,
+  CreationSite,
+  EngineBackend,
+  EngineInfo,
+  ObjectProperties,
+  ObjectPropertyChange,
+  OutlineNode,
+  ResourceReport,
+  SceneExportFormat,
+  SceneNodeChange,
+  SceneObjectRef,
+  ScreenshotOptions
+} from '@/lib/runtime/protocol'
+import { describeEdits, getHistoryCommand } from '@/lib/code-history'
+import type { HistoryCommand } from '@/lib/code-history'
+import { downloadFile, toFileBaseName } from '@/lib/download'
+import { MODEL_EXTENSIONS, isModelFile } from '@/lib/model-files'
+import { AssetStore, DRAFT_SCOPE } from '@/lib/asset-store'
+import type { LibraryAsset } from '@/lib/asset-drag'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable'
 
+const MAX_CONSOLE_ENTRIES = 1000
+const MAX_RESOURCE_REPORTS = 50
+
 export function PlaygroundLayout() {
-  const [code, setCode] = useState('')
-  const [language, setLanguage] = useState<'javascript' | 'typescript'>('javascript')
+  const [code, setCode] = useState(() => PlaygroundStorage.loadDraft()?.code ?? '')
+  const [language, setLanguage] = useState<'javascript' | 'typescript'>(
+    () => PlaygroundStorage.loadDraft()?.language ?? 'javascript'
+  )
+  const [engine, setEngine] = useState<EngineBackend>(() => PlaygroundStorage.loadDraft()?.engine ?? 'webgl2')
+  const [engineInfo, setEngineInfo] = useState<EngineInfo | null>(null)
   const [isRunning, setIsRunning] = useState(false)
-  const [currentScene, setCurrentScene] = useState<PlaygroundScene | null>(null)
+  const [isRecording, setIsRecording] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isVisualRegressionOpen, setIsVisualRegressionOpen] = useState(false)
+  const [currentScene, setCurrentScene] = useState<PlaygroundScene | null>(() => {
+    const sceneId = PlaygroundStorage.loadDraft()?.sceneId
+    return sceneId ? PlaygroundStorage.getScenes().find(scene => scene.id === sceneId) ?? null : null
+  })
+  const [isAssetManagerOpen, setIsAssetManagerOpen] = useState(false)
+  const [settings, setSettings] = useState<PlaygroundSettings>(() => SettingsStorage.load())
+  const [diagnostics, setDiagnostics] = useState<CompileDiagnostic[]>([])
+  const [runtimeErrors, setRuntimeErrors] = useState<RuntimeErrorMarker[]>([])
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([])
+  const [resourceReports, setResourceReports] = useState<ResourceReport[]>([])
+  const [isConsoleOpen, setIsConsoleOpen] = useState(false)
+  const [bottomPanelTab, setBottomPanelTab] = useState<BottomPanelTab>('console')
+  const [sidePanelTab, setSidePanelTab] = useState<SidePanelTab>('assets')
+  const [outline, setOutline] = useState<OutlineNode[]>([])
+  const [selectedObject, setSelectedObject] = useState<SceneObjectRef | null>(null)
+  const [selectionProperties, setSelectionProperties] = useState<ObjectProperties | null>(null)
+  const codeEditorRef = useRef<CodeEditorHandle>(null)
+  const canvasRef = useRef<BabylonCanvasHandle>(null)
+  // Where the running code created its objects, in editor lines
+  const creationSitesRef = useRef<CreationSite[]>([])
   const { toast } = useToast()
-  const { getSceneManager } = useSceneManager()
+  const { getRuntime } = useSandboxRuntime()
+  // Set when a history step changes the code while the scene doesn't re-run by itself
+  const runAfterHistoryStepRef = useRef(false)
+  const setCodeFromHistory = useCallback((next: string) => {
+    runAfterHistoryStepRef.current = settings.runMode !== 'live'
+    setCode(next)
+  }, [settings.runMode])
+  const history = useCodeHistory(code, setCodeFromHistory)
+  const { record: recordHistory, undo: undoHistory, redo: redoHistory, isSettled: isHistorySettled } = history
+  const visualRegression = useVisualRegression(getRuntime, currentScene, engineInfo)
+  // Files that arrive after the first run, as on a reload, need another run to be picked up
+  const {
+    assets: storedAssets,
+    error: assetStoreError,
+    addFiles: addAssetFiles,
+    removeAsset,
+    clearScope: clearAssetScope
+  } = useAssetStore(getRuntime, currentScene?.id ?? DRAFT_SCOPE, () => canvasRef.current?.run())
+
+  // Reported once, not on every keystroke, until a save goes through again
+  const draftSaveFailedRef = useRef(false)
+  useEffect(() => {
+    const saved = PlaygroundStorage.saveDraft({ code, language, engine, sceneId: currentScene?.id })
+    if (!saved && !draftSaveFailedRef.current) {
+      toast({
+        title: "Draft not saved",
+        description: "Browser storage is full. Unpin reference images of other scenes to make room.",
+        variant: "destructive"
+      })
+    }
+    draftSaveFailedRef.current = !saved
+  }, [code, language, engine, currentScene?.id, toast])
+
+  // Gizmo edits and asset insertions happen inside the sandbox, which reports them as edits to the code.
+  // Each batch is a step in the undo history.
+  useSceneCodeSync(getRuntime, code, language, (next, previous, edits) => {
+    const { kind, label } = describeEdits(edits)
+    recordHistory(kind, label, previous, next)
+    setCode(next)
+  }, (message) => {
+    toast({
+      title: "Could not update the code",
+      description: message,
+      variant: "destructive"
+    })
+  })
+
+  // Ctrl+Z and Ctrl+Shift+Z outside the editor and text fields, and on the canvas through the sandbox
+  useEffect(() => {
+    const runCommand = (command: HistoryCommand) => {
+      if (command === 'undo') undoHistory()
+      else redoHistory()
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (event.defaultPrevented || target?.closest('input, textarea, select, [contenteditable="true"]')) return
+      const command = getHistoryCommand(event)
+      if (command) {
+        event.preventDefault()
+        runCommand(command)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    const unsubscribe = getRuntime().on('history-command', (message) => runCommand(message.command))
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      unsubscribe()
+    }
+  }, [getRuntime, undoHistory, redoHistory])
+
+  // Undoing a viewport edit has to undo it in the viewport too. This runs once the canvas has
+  // the new code; live mode re-runs on its own.
+  useEffect(() => {
+    if (!runAfterHistoryStepRef.current) return
+    runAfterHistoryStepRef.current = false
+    canvasRef.current?.run()
+  }, [code])
+
+  // In the editor the history only takes over once Monaco has undone the typing since the last step
+  const handleEditorUndo = useCallback(() => isHistorySettled() && undoHistory(), [isHistorySettled, undoHistory])
+
+  // Picking an object in the viewport marks the line that created it
+  useEffect(() => {
+    return getRuntime().on('selection-changed', (message) => {
+      setSelectedObject(message.object)
+      codeEditorRef.current?.highlightLine(message.location?.line ?? null)
+    })
+  }, [getRuntime])
+
+  useEffect(() => {
+    return getRuntime().on('scene-outline', (message) => setOutline(message.nodes))
+  }, [getRuntime])
+
+  useEffect(() => {
+    return getRuntime().on('selection-properties', (message) => setSelectionProperties(message.properties))
+  }, [getRuntime])
+
+  // Errors from scene code are marked in the editor until the next run
+  useEffect(() => {
+    return getRuntime().on('error', (message) => {
+      if (message.source === 'runtime' || !message.location) return
+      const marker = { message: message.message, location: message.location }
+      setRuntimeErrors(previous => [...previous, marker])
+    })
+  }, [getRuntime])
+
+  useEffect(() => {
+    return getRuntime().on('console', (message) => {
+      // Keep only the most recent output so a chatty render loop can't grow this forever
+      setConsoleEntries(previous => [...previous, message.entry].slice(-MAX_CONSOLE_ENTRIES))
+    })
+  }, [getRuntime])
+
+  useEffect(() => {
+    return getRuntime().on('resource-report', (message) => {
+      setResourceReports(previous => [...previous, message.report].slice(-MAX_RESOURCE_REPORTS))
+    })
+  }, [getRuntime])
+
+  useEffect(() => {
+    return getRuntime().on('stopped', () => {
+      setIsRunning(false)
+      setOutline([])
+      setSelectedObject(null)
+      setSelectionProperties(null)
+    })
+  }, [getRuntime])
 
   const handleRun = useCallback(() => {
-    setIsRunning(true)
-    // The canvas will automatically re-render when code changes
-    setTimeout(() => setIsRunning(false), 1000)
+    canvasRef.current?.run()
   }, [])
 
+  const handleStop = useCallback(() => {
+    canvasRef.current?.stop()
+  }, [])
+
+  // Ctrl/Cmd+Enter outside the editor; inside it Monaco handles the shortcut itself
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault()
+        handleRun()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleRun])
+
   const handleSave = useCallback(async () => {
     try {
       const scene: PlaygroundScene = {
         id: currentScene?.id,
         name: currentScene?.name || `Scene ${new Date().toLocaleString()}`,
         code,
-        language
+        language,
+        engine
       }
       
       const savedScene = await PlaygroundStorage.saveScene(scene)
+      // The draft's files now belong to the scene it was saved as
+      if (!currentScene?.id) {
+        await AssetStore.move(DRAFT_SCOPE, savedScene.id)
+      }
       setCurrentScene(savedScene)
       
       toast({
@@ -46,24 +259,28 @@ export function PlaygroundLayout() {
         variant: "destructive"
       })
     }
-  }, [code, language, currentScene, toast])
+  }, [code, language, engine, currentScene, toast])
 
   const handleNew = useCallback(() => {
+    recordHistory('replace', 'New scene', code, '')
     setCode('')
     setCurrentScene(null)
+    // Files of an earlier unsaved scene would otherwise carry over
+    clearAssetScope(DRAFT_SCOPE).catch(() => {})
     toast({
       title: "New scene created",
       description: "Starting with a fresh canvas",
     })
-  }, [toast])
+  }, [code, recordHistory, clearAssetScope, toast])
 
   const handleClear = useCallback(() => {
+    recordHistory('replace', 'Clear code', code, '')
     setCode('')
     toast({
       title: "Code cleared",
       description: "Editor has been cleared",
     })
-  }, [toast])
+  }, [code, recordHistory, toast])
 
   const handleDownload = useCallback(() => {
     const blob = new Blob([code], { type: 'text/javascript' })
@@ -83,52 +300,92 @@ export function PlaygroundLayout() {
   }, [code, language, toast])
 
   const handleInspector = useCallback(async () => {
-    const globalWindow = window as any
-    if (globalWindow.scene && globalWindow.scene.debugLayer) {
-      if (globalWindow.scene.debugLayer.isVisible()) {
-        globalWindow.scene.debugLayer.hide()
-        toast({
-          title: "Inspector closed",
-          description: "Debug panel has been hidden",
-        })
-      } else {
-        // Configure inspector to not take full screen
-        await globalWindow.scene.debugLayer.show({
-          embedMode: false,
-          overlay: true,
-          globalRoot: document.body,
-          showExplorer: true,
-          hideActionTabs: false,
-          handleResize: true,
-          initialTab: 0
-        })
-        
-        // Adjust inspector position after it's shown
-        setTimeout(() => {
-          const inspectorHost = document.querySelector('#babylon-inspector-host') || 
-                               document.querySelector('.inspector-host') ||
-                               document.querySelector('[class*="inspector"]')
-          
-          if (inspectorHost && inspectorHost instanceof HTMLElement) {
-            inspectorHost.style.top = '56px'
-            inspectorHost.style.height = 'calc(100vh - 56px)'
-            inspectorHost.style.zIndex = '999'
-          }
-        }, 100)
-        
-        toast({
-          title: "Inspector opened",
-          description: "Use the debug panel to inspect and modify your scene",
-        })
-      }
-    } else {
+    try {
+      const { visible } = await getRuntime().request('toggle-inspector')
+      toast(visible ? {
+        title: "Inspector opened",
+        description: "Use the debug panel to inspect and modify your scene",
+      } : {
+        title: "Inspector closed",
+        description: "Debug panel has been hidden",
+      })
+    } catch (error) {
       toast({
         title: "Inspector unavailable",
-        description: "No active scene to inspect",
+        description: error instanceof Error ? error.message : "No active scene to inspect",
         variant: "destructive"
       })
     }
-  }, [toast])
+  }, [getRuntime, toast])
+
+  const handleScreenshot = useCallback(async (options: ScreenshotOptions) => {
+    try {
+      const { dataUrl, width, height } = await getRuntime().request('capture-screenshot', options)
+      const suffix = options.transparent ? '-transparent' : options.width ? `-${width}x${height}` : ''
+      const fileName = `${toFileBaseName(currentScene?.name)}${suffix}.png`
+      downloadFile(dataUrl, fileName)
+      toast({
+        title: "Screenshot saved",
+        description: `${fileName} (${width}×${height})`,
+      })
+    } catch (error) {
+      toast({
+        title: "Screenshot failed",
+        description: error instanceof Error ? error.message : "Could not capture the scene",
+        variant: "destructive"
+      })
+    }
+  }, [getRuntime, currentScene, toast])
+
+  const handleRecordVideo = useCallback(async (durationSeconds: number) => {
+    setIsRecording(true)
+    try {
+      const { video } = await getRuntime().request('record-video', { durationSeconds })
+      const fileName = `${toFileBaseName(currentScene?.name)}.webm`
+      downloadFile(video, fileName)
+      toast({
+        title: "Recording saved",
+        description: fileName,
+      })
+    } catch (error) {
+      toast({
+        title: "Recording failed",
+        description: error instanceof Error ? error.message : "Could not record the scene",
+        variant: "destructive"
+      })
+    } finally {
+      setIsRecording(false)
+    }
+  }, [getRuntime, currentScene, toast])
+
+  const handleStopRecording = useCallback(() => {
+    // The pending record-video request resolves with what was recorded so far
+    getRuntime().request('stop-video').catch(() => {})
+  }, [getRuntime])
+
+  const handleExportScene = useCallback(async (format: SceneExportFormat, exportSettings: SceneExportSettings) => {
+    setIsExporting(true)
+    try {
+      const { files } = await getRuntime().request('export-scene', {
+        ...exportSettings,
+        format,
+        fileName: toFileBaseName(currentScene?.name)
+      })
+      files.forEach(file => downloadFile(file.data, file.name))
+      toast({
+        title: "Scene exported",
+        description: files.map(file => file.name).join(', '),
+      })
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the scene",
+        variant: "destructive"
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }, [getRuntime, currentScene, toast])
 
   const handleExamples = useCallback(() => {
     toast({
@@ -137,41 +394,77 @@ export function PlaygroundLayout() {
     })
   }, [toast])
 
-  const handleSettings = useCallback(() => {
-    toast({
-      title: "Settings",
-      description: "Settings panel coming soon!",
+  const handleSettingsChange = useCallback((changes: Partial<PlaygroundSettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...changes }
+      SettingsStorage.save(next)
+      return next
     })
-  }, [toast])
+  }, [])
 
-  const handleSceneReady = useCallback((scene: any) => {
-    console.log('Scene ready:', scene)
-    // Setup scene manager with gizmos and code synchronization
-    const sceneManager = getSceneManager()
-    sceneManager.setScene(scene, setCode)
-    
-    // Restore selected mesh if it was saved during code update
-    if (scene._selectedMeshName) {
-      setTimeout(() => {
-        sceneManager.restoreSelection(scene._selectedMeshName)
-      }, 100)
+  const handleEngineChange = useCallback((next: EngineBackend) => {
+    if (next === engine) return
+    // The badge shows the new engine once the replacement sandbox reports it
+    setEngineInfo(null)
+    setEngine(next)
+  }, [engine])
+
+  const handleRunStart = useCallback(() => {
+    setRuntimeErrors([])
+    if (settings.clearConsoleOnRun) {
+      setConsoleEntries([])
     }
-    
-    // Make scene manager globally available for selection preservation
-    ;(window as any).sceneManager = sceneManager
-    
-    // Handle resize events from the scene manager
-    const handleResize = () => {
-      sceneManager.handleResize()
+  }, [settings.clearConsoleOnRun])
+
+  const handleJumpToLocation = useCallback((location: CodeLocation) => {
+    codeEditorRef.current?.revealLocation(location.line, location.column)
+  }, [])
+
+  const handleInspectObject = useCallback((objectId: number) => {
+    return getRuntime().request('inspect-object', { objectId })
+  }, [getRuntime])
+
+  // Putting the cursor on a line that created an object selects the object
+  const handleCursorLineChange = useCallback((line: number) => {
+    const site = creationSitesRef.current.find(candidate => candidate.location.line === line)
+    if (site) {
+      getRuntime().selectObject(site.object)
     }
-    
-    // Listen for panel resize events
-    window.addEventListener('resize', handleResize)
-    
-    return () => {
-      window.removeEventListener('resize', handleResize)
+  }, [getRuntime])
+
+  const handleOutlineSelect = useCallback((node: OutlineNode) => {
+    getRuntime().selectObject({ kind: node.kind, name: node.name })
+  }, [getRuntime])
+
+  const handleOutlineChange = useCallback(async (node: OutlineNode, change: SceneNodeChange) => {
+    try {
+      await getRuntime().request('edit-scene-node', { id: node.id, change })
+    } catch (error) {
+      toast({
+        title: `Could not change ${node.name}`,
+        description: error instanceof Error ? error.message : "The scene rejected the change",
+        variant: "destructive"
+      })
+    }
+  }, [getRuntime, toast])
+
+  const handlePropertyChange = useCallback(async (change: ObjectPropertyChange, commit: boolean) => {
+    try {
+      await getRuntime().request('set-object-property', { change, commit })
+    } catch (error) {
+      toast({
+        title: "Could not change the property",
+        description: error instanceof Error ? error.message : "The scene rejected the change",
+        variant: "destructive"
+      })
     }
-  }, [getSceneManager])
+  }, [getRuntime, toast])
+
+  const handleSceneReady = useCallback((event: SceneReadyEvent) => {
+    creationSitesRef.current = event.creationSites
+    setIsRunning(true)
+    console.log('Scene ready:', event.summary)
+  }, [])
 
   const handleSceneError = useCallback((error: Error) => {
     toast({
@@ -181,29 +474,160 @@ export function PlaygroundLayout() {
     })
   }, [toast])
 
-  const handleAssetDrop = useCallback((asset: any) => {
-    const sceneManager = getSceneManager()
-    sceneManager.addAsset(asset.code, asset.name, asset.type)
+  const handleAssetDrop = useCallback(async (asset: LibraryAsset, point?: CanvasPoint) => {
+    if (asset.type === 'texture') {
+      try {
+        const { meshName } = await getRuntime().request('apply-texture', { texture: asset.texture, point })
+        toast({
+          title: "Texture applied",
+          description: `${asset.name} on "${meshName}"`,
+        })
+      } catch (error) {
+        toast({
+          title: `Could not apply ${asset.name}`,
+          description: error instanceof Error ? error.message : "The texture could not be applied",
+          variant: "destructive"
+        })
+      }
+      return
+    }
+
+    if (asset.type === 'material') {
+      try {
+        const { meshName, materialName } = await getRuntime().request('apply-material', {
+          asset: { name: asset.name, type: asset.type, code: asset.code },
+          point
+        })
+        toast({
+          title: "Material applied",
+          description: `"${materialName}" on "${meshName}"`,
+        })
+      } catch (error) {
+        toast({
+          title: `Could not apply ${asset.name}`,
+          description: error instanceof Error ? error.message : "The material could not be applied",
+          variant: "destructive"
+        })
+      }
+      return
+    }
+
+    getRuntime().addAsset({
+      name: asset.name,
+      type: asset.type,
+      code: asset.code
+    }, point && { point, alignToSurface: settings.alignDropsToSurface })
     
     toast({
       title: "Asset Added",
       description: `${asset.name} has been added to the scene`,
     })
-  }, [getSceneManager, toast])
+  }, [getRuntime, settings.alignDropsToSurface, toast])
+
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    const models = files.filter(file => isModelFile(file.name))
+    if (models.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: `Expected a ${MODEL_EXTENSIONS.join(', ')} file`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    // Sidecars are stored too, so .gltf and .obj files can find their buffers and textures
+    try {
+      await addAssetFiles(files)
+    } catch (error) {
+      toast({
+        title: "Could not store the files",
+        description: error instanceof Error ? error.message : "The browser refused to store them",
+        variant: "destructive"
+      })
+      return
+    }
+
+    for (const model of models) {
+      try {
+        const { name, meshes } = await getRuntime().request('import-model', { fileName: model.name })
+        toast({
+          title: "Model imported",
+          description: `${model.name} as "${name}" (${meshes} ${meshes === 1 ? 'mesh' : 'meshes'})`,
+        })
+      } catch (error) {
+        toast({
+          title: `Could not import ${model.name}`,
+          description: error instanceof Error ? error.message : "The file could not be loaded",
+          variant: "destructive"
+        })
+      }
+    }
+  }, [getRuntime, addAssetFiles, toast])
+
+  const handleAddAssets = useCallback(async (files: File[]) => {
+    try {
+      await addAssetFiles(files)
+    } catch (error) {
+      toast({
+        title: "Could not store the files",
+        description: error instanceof Error ? error.message : "The browser refused to store them",
+        variant: "destructive"
+      })
+    }
+  }, [addAssetFiles, toast])
+
+  const handleRemoveAsset = useCallback((name: string) => {
+    removeAsset(name).catch(error => {
+      toast({
+        title: "Could not delete the file",
+        description: error instanceof Error ? error.message : name,
+        variant: "destructive"
+      })
+    })
+  }, [removeAsset, toast])
+
+  const handleCopyAssetUrl = useCallback((url: string) => {
+    navigator.clipboard.writeText(url).then(
+      () => toast({ title: "Copied", description: url }),
+      () => toast({ title: "Could not copy", description: url, variant: "destructive" })
+    )
+  }, [toast])
+
+  useEffect(() => {
+    return getRuntime().on('files-dropped', (message) => handleImportFiles(message.files))
+  }, [getRuntime, handleImportFiles])
+
+  const consoleErrorCount = consoleEntries.filter(entry => entry.level === 'error').length
+  const unreclaimedCount = resourceReports.reduce((total, report) => total + report.unreclaimed.length, 0)
 
   return (
     <div className="playground-layout">
       <PlaygroundToolbar
         onRun={handleRun}
+        onStop={handleStop}
         onSave={handleSave}
         onInspector={handleInspector}
         onDownload={handleDownload}
+        onExportScene={handleExportScene}
         onNew={handleNew}
         onClear={handleClear}
         onExamples={handleExamples}
-        onSettings={handleSettings}
+        onToggleConsole={() => setIsConsoleOpen(open => !open)}
+        onScreenshot={handleScreenshot}
+        onRecordVideo={handleRecordVideo}
+        onStopRecording={handleStopRecording}
+        onOpenVisualRegression={() => setIsVisualRegressionOpen(true)}
+        isRecording={isRecording}
+        isExporting={isExporting}
+        isConsoleOpen={isConsoleOpen}
+        consoleErrorCount={consoleErrorCount}
+        settings={settings}
+        onSettingsChange={handleSettingsChange}
         language={language}
         onLanguageChange={setLanguage}
+        engine={engine}
+        engineInfo={engineInfo}
+        onEngineChange={handleEngineChange}
         isRunning={isRunning}
       />
       
@@ -211,9 +635,16 @@ export function PlaygroundLayout() {
         {/* Code Editor Panel */}
         <ResizablePanel defaultSize={35} minSize={25}>
           <CodeEditor
+            ref={codeEditorRef}
             value={code}
             onChange={setCode}
             language={language}
+            diagnostics={diagnostics}
+            runtimeErrors={runtimeErrors}
+            onRun={handleRun}
+            onCursorLineChange={handleCursorLineChange}
+            onUndo={handleEditorUndo}
+            onRedo={redoHistory}
             className="h-full custom-scrollbar"
           />
         </ResizablePanel>
@@ -222,24 +653,125 @@ export function PlaygroundLayout() {
         
         {/* Canvas Panel */}
         <ResizablePanel defaultSize={45} minSize={30}>
-          <BabylonCanvas
-            code={code}
-            onSceneReady={handleSceneReady}
-            onError={handleSceneError}
-            className="h-full"
-          />
+          <ResizablePanelGroup direction="vertical">
+            <ResizablePanel id="canvas" order={1} defaultSize={70} minSize={30}>
+              <BabylonCanvas
+                ref={canvasRef}
+                code={code}
+                language={language}
+                runtime={getRuntime()}
+                runMode={settings.runMode}
+                liveRunDelayMs={settings.liveRunDelayMs}
+                blockOnTypeErrors={settings.blockRunOnTypeErrors}
+                executionBudgetMs={settings.executionBudgetMs}
+                engine={engine}
+                onEngineReady={setEngineInfo}
+                onSceneReady={handleSceneReady}
+                onError={handleSceneError}
+                onAssetDrop={handleAssetDrop}
+                onDiagnostics={setDiagnostics}
+                onRunStart={handleRunStart}
+                onJumpToLocation={handleJumpToLocation}
+                className="h-full"
+              />
+            </ResizablePanel>
+
+            {isConsoleOpen && (
+              <>
+                <ResizableHandle withHandle />
+                <ResizablePanel id="console" order={2} defaultSize={30} minSize={15}>
+                  <BottomPanel
+                    tab={bottomPanelTab}
+                    onTabChange={setBottomPanelTab}
+                    onClose={() => setIsConsoleOpen(false)}
+                    errorCount={consoleErrorCount}
+                    issueCount={unreclaimedCount}
+                    consoleContent={
+                      <ConsolePanel
+                        entries={consoleEntries}
+                        clearOnRun={settings.clearConsoleOnRun}
+                        onClearOnRunChange={(clearConsoleOnRun) => handleSettingsChange({ clearConsoleOnRun })}
+                        onClear={() => setConsoleEntries([])}
+                        onJumpToLocation={handleJumpToLocation}
+                        onInspect={handleInspectObject}
+                      />
+                    }
+                    diagnosticsContent={
+                      <DiagnosticsPanel
+                        reports={resourceReports}
+                        onClear={() => setResourceReports([])}
+                      />
+                    }
+                  />
+                </ResizablePanel>
+              </>
+            )}
+          </ResizablePanelGroup>
         </ResizablePanel>
         
         <ResizableHandle withHandle />
         
-        {/* Assets Panel */}
+        {/* Assets and Outliner Panel */}
         <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
-          <AssetsPanel 
-            onAssetDrop={handleAssetDrop}
-            className="h-full"
+          <SidePanel
+            tab={sidePanelTab}
+            onTabChange={setSidePanelTab}
+            assetsContent={
+              <AssetsPanel 
+                onAssetDrop={handleAssetDrop}
+                onImportFiles={handleImportFiles}
+                onUploadImages={handleAddAssets}
+                storedAssets={storedAssets}
+                onManageAssets={() => setIsAssetManagerOpen(true)}
+                className="h-full"
+              />
+            }
+            outlinerContent={
+              <OutlinerPanel
+                nodes={outline}
+                selected={selectedObject}
+                onSelect={handleOutlineSelect}
+                onChange={handleOutlineChange}
+              />
+            }
+            propertiesContent={
+              <PropertiesPanel
+                properties={selectionProperties}
+                onChange={handlePropertyChange}
+              />
+            }
+            historyContent={<HistoryPanel history={history} />}
           />
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      <AssetManagerDialog
+        open={isAssetManagerOpen}
+        onOpenChange={setIsAssetManagerOpen}
+        sceneName={currentScene?.name ?? null}
+        assets={storedAssets}
+        error={assetStoreError}
+        code={code}
+        onAddFiles={handleAddAssets}
+        onRemoveAsset={handleRemoveAsset}
+        onCopyUrl={handleCopyAssetUrl}
+        onJumpToLocation={handleJumpToLocation}
+      />
+
+      <VisualRegressionDialog
+        open={isVisualRegressionOpen}
+        onOpenChange={setIsVisualRegressionOpen}
+        scene={currentScene}
+        hasUnsavedChanges={!!currentScene && (currentScene.code !== code || currentScene.language !== language)}
+        engineInfo={engineInfo}
+        reference={visualRegression.reference}
+        result={visualRegression.result}
+        status={visualRegression.status}
+        error={visualRegression.error}
+        onPin={visualRegression.pin}
+        onCompare={visualRegression.compare}
+        onRemoveReference={visualRegression.removeReference}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,45 +1,112 @@
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
 import { 
   Play, 
   Save, 
   Eye, 
-  Download, 
   Plus, 
   Code, 
   Trash2, 
   Settings,
-  FolderOpen
+  FolderOpen,
+  Terminal,
+  Square,
+  AlertTriangle,
+  ChevronDown
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import type { PlaygroundSettings, RunMode } from "@/lib/settings"
+import type { EngineBackend, EngineInfo, SceneExportFormat, ScreenshotOptions } from "@/lib/runtime/protocol"
+import { CaptureMenu } from "./CaptureMenu"
+import { ExportMenu, type SceneExportSettings } from "./ExportMenu"
+
+const EXECUTION_BUDGETS_MS = [2000, 5000, 10000, 30000]
+const LIVE_RUN_DELAYS_MS = [150, 300, 500, 1000]
+
+const RUN_MODES: { mode: RunMode; label: string; title: string }[] = [
+  { mode: 'live', label: 'Live', title: 'Run automatically after each edit' },
+  { mode: 'manual', label: 'Manual', title: 'Run only with the Run button or Ctrl/Cmd+Enter' }
+]
+
+const ENGINE_BACKENDS: { backend: EngineBackend; label: string; description: string }[] = [
+  { backend: 'webgl2', label: 'WebGL2', description: 'Default renderer' },
+  { backend: 'webgl1', label: 'WebGL1', description: 'For checking older devices' },
+  { backend: 'webgpu', label: 'WebGPU', description: 'Falls back to WebGL2 where unsupported' },
+  { backend: 'null', label: 'NullEngine', description: 'No rendering, runs logic without a GPU' }
+]
+
+function engineLabel(backend: EngineBackend) {
+  return ENGINE_BACKENDS.find(option => option.backend === backend)?.label ?? backend
+}
 
 interface PlaygroundToolbarProps {
   onRun: () => void
+  onStop: () => void
   onSave: () => void
   onInspector: () => void
   onDownload: () => void
+  onExportScene: (format: SceneExportFormat, settings: SceneExportSettings) => void
   onNew: () => void
   onClear: () => void
   onExamples: () => void
-  onSettings: () => void
+  onToggleConsole: () => void
+  onScreenshot: (options: ScreenshotOptions) => void
+  onRecordVideo: (durationSeconds: number) => void
+  onStopRecording: () => void
+  onOpenVisualRegression: () => void
+  isRecording?: boolean
+  isExporting?: boolean
+  isConsoleOpen?: boolean
+  consoleErrorCount?: number
+  settings: PlaygroundSettings
+  onSettingsChange: (settings: Partial<PlaygroundSettings>) => void
   language: 'javascript' | 'typescript'
   onLanguageChange: (lang: 'javascript' | 'typescript') => void
+  engine: EngineBackend
+  // Reported by the sandbox once the engine is up; null while it boots
+  engineInfo?: EngineInfo | null
+  onEngineChange: (engine: EngineBackend) => void
   version?: string
   isRunning?: boolean
 }
 
 export function PlaygroundToolbar({
   onRun,
+  onStop,
   onSave,
   onInspector,
   onDownload,
+  onExportScene,
   onNew,
   onClear,
   onExamples,
-  onSettings,
+  onToggleConsole,
+  onScreenshot,
+  onRecordVideo,
+  onStopRecording,
+  onOpenVisualRegression,
+  isRecording = false,
+  isExporting = false,
+  isConsoleOpen = false,
+  consoleErrorCount = 0,
+  settings,
+  onSettingsChange,
   language,
   onLanguageChange,
-  version = "8.25.0",
+  engine,
+  engineInfo = null,
+  onEngineChange,
+  version = "8.56.2",
   isRunning = false
 }: PlaygroundToolbarProps) {
   return (
@@ -52,9 +119,42 @@ export function PlaygroundToolbar({
           </div>
           <h1 className="text-lg font-semibold text-foreground">Playground</h1>
         </div>
-        <Badge variant="outline" className="text-xs">
-          {version} (WebGL2)
-        </Badge>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button type="button" title={engineInfo?.fallbackReason ?? "Choose the rendering engine"}>
+              <Badge variant="outline" className="text-xs gap-1 cursor-pointer hover:bg-secondary">
+                {engineInfo?.fallbackReason && <AlertTriangle className="w-3 h-3 text-warning" />}
+                {engineInfo?.version ?? version} ({engineInfo ? engineLabel(engineInfo.backend) : "starting..."})
+                <ChevronDown className="w-3 h-3" />
+              </Badge>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuLabel>Engine</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={engine}
+              onValueChange={(value) => onEngineChange(value as EngineBackend)}
+            >
+              {ENGINE_BACKENDS.map(({ backend, label, description }) => (
+                <DropdownMenuRadioItem key={backend} value={backend}>
+                  <div className="flex flex-col">
+                    <span>{label}</span>
+                    <span className="text-xs text-muted-foreground">{description}</span>
+                  </div>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            {engineInfo?.fallbackReason && (
+              <>
+                <DropdownMenuSeparator />
+                <p className="px-2 py-1.5 text-xs text-warning">
+                  {engineInfo.fallbackReason}, running {engineLabel(engineInfo.backend)} instead
+                </p>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Center section - Language toggles */}
@@ -91,16 +191,47 @@ export function PlaygroundToolbar({
 
       {/* Right section - Action buttons */}
       <div className="flex items-center gap-2">
+        <div className="flex bg-secondary rounded-lg p-1">
+          {RUN_MODES.map(({ mode, label, title }) => (
+            <Button
+              key={mode}
+              variant={settings.runMode === mode ? 'default' : 'ghost'}
+              size="sm"
+              title={title}
+              onClick={() => onSettingsChange({ runMode: mode })}
+              className={cn(
+                "text-xs px-3 h-7",
+                settings.runMode === mode
+                  ? "bg-primary text-primary-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
         <Button
           variant="default"
           size="sm"
           onClick={onRun}
-          disabled={isRunning}
+          title="Run (Ctrl/Cmd+Enter)"
           className="bg-success hover:bg-success/90 text-success-foreground"
         >
           <Play className="w-4 h-4 mr-2" />
           Run
         </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onStop}
+          disabled={!isRunning}
+          title="Stop the scene and its render loop"
+        >
+          <Square className="w-4 h-4 mr-2" />
+          Stop
+        </Button>
         
         <Button variant="ghost" size="sm" onClick={onSave}>
           <Save className="w-4 h-4 mr-2" />
@@ -111,10 +242,35 @@ export function PlaygroundToolbar({
           <Eye className="w-4 h-4 mr-2" />
           Inspector
         </Button>
+
+        <CaptureMenu
+          onScreenshot={onScreenshot}
+          onRecordVideo={onRecordVideo}
+          onStopRecording={onStopRecording}
+          onOpenVisualRegression={onOpenVisualRegression}
+          isRecording={isRecording}
+        />
         
-        <Button variant="ghost" size="sm" onClick={onDownload}>
-          <Download className="w-4 h-4 mr-2" />
-          Download
+        <ExportMenu
+          language={language}
+          onDownloadCode={onDownload}
+          onExportScene={onExportScene}
+          isExporting={isExporting}
+        />
+        
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onToggleConsole}
+          className={cn(isConsoleOpen && "bg-secondary")}
+        >
+          <Terminal className="w-4 h-4 mr-2" />
+          Console
+          {consoleErrorCount > 0 && (
+            <Badge variant="destructive" className="ml-2 h-5 px-1.5 text-xs">
+              {consoleErrorCount}
+            </Badge>
+          )}
         </Button>
         
         <div className="w-px h-4 bg-border mx-1" />
@@ -134,9 +290,57 @@ export function PlaygroundToolbar({
           Examples
         </Button>
         
-        <Button variant="ghost" size="sm" onClick={onSettings}>
-          <Settings className="w-4 h-4" />
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <Settings className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel>Settings</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={settings.blockRunOnTypeErrors}
+              onCheckedChange={(checked) => onSettingsChange({ blockRunOnTypeErrors: checked })}
+            >
+              Block run on type errors
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={settings.alignDropsToSurface}
+              onCheckedChange={(checked) => onSettingsChange({ alignDropsToSurface: checked })}
+            >
+              Align dropped meshes to surfaces
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+              Live run delay
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(settings.liveRunDelayMs)}
+              onValueChange={(value) => onSettingsChange({ liveRunDelayMs: Number(value) })}
+            >
+              {LIVE_RUN_DELAYS_MS.map(delay => (
+                <DropdownMenuRadioItem key={delay} value={String(delay)} disabled={settings.runMode !== 'live'}>
+                  {delay} ms
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+              Abort code running longer than
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(settings.executionBudgetMs)}
+              onValueChange={(value) => onSettingsChange({ executionBudgetMs: Number(value) })}
+            >
+              {EXECUTION_BUDGETS_MS.map(budget => (
+                <DropdownMenuRadioItem key={budget} value={String(budget)}>
+                  {budget / 1000} seconds
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </div>
   )
@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState } from 'react'
+import type { KeyboardEvent, ReactNode } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type {
+  MaterialColorProperty,
+  ObjectProperties,
+  ObjectPropertyChange,
+  TransformProperty,
+  Vector3Tuple
+} from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+interface PropertiesPanelProps {
+  properties: ObjectProperties | null
+  // Previews change the scene only; commits are also written into the code
+  onChange: (change: ObjectPropertyChange, commit: boolean) => void
+  className?: string
+}
+
+const TRANSFORM_LABELS: Record<TransformProperty, string> = {
+  position: 'Position',
+  rotation: 'Rotation (°)',
+  scaling: 'Scaling'
+}
+
+const COLOR_LABELS: Record<MaterialColorProperty, string> = {
+  diffuseColor: 'Diffuse',
+  specularColor: 'Specular',
+  emissiveColor: 'Emissive',
+  ambientColor: 'Ambient',
+  albedoColor: 'Albedo'
+}
+
+const AXES = ['X', 'Y', 'Z']
+const DISPLAY_DECIMALS = 4
+
+function toDegrees(radians: number) {
+  return (radians * 180) / Math.PI
+}
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180
+}
+
+function formatValue(value: number) {
+  return String(Number(value.toFixed(DISPLAY_DECIMALS)))
+}
+
+// Commits on Enter or when focus leaves, so a half-typed number never reaches the code
+function NumberField({
+  value,
+  onCommit,
+  min,
+  label,
+  className
+}: {
+  value: number
+  onCommit: (value: number) => void
+  min?: number
+  label?: string
+  className?: string
+}) {
+  const [draft, setDraft] = useState(formatValue(value))
+
+  useEffect(() => {
+    setDraft(formatValue(value))
+  }, [value])
+
+  const commit = () => {
+    const next = Number(draft)
+    if (draft.trim() === '' || !Number.isFinite(next) || (min !== undefined && next < min)) {
+      setDraft(formatValue(value))
+      return
+    }
+    if (formatValue(next) !== formatValue(value)) {
+      onCommit(next)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') commit()
+    if (event.key === 'Escape') setDraft(formatValue(value))
+  }
+
+  return (
+    <Input
+      type="number"
+      step="any"
+      min={min}
+      aria-label={label}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      className={cn("h-7 px-1.5 text-xs", className)}
+    />
+  )
+}
+
+// Previews while the picker is open and commits the color it closes on
+function ColorField({ value, onChange }: { value: string; onChange: (value: string, commit: boolean) => void }) {
+  const [draft, setDraft] = useState(value)
+  // Previews update value too, so the commit compares with the color before the picker opened
+  const openedWithRef = useRef(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  return (
+    <Input
+      type="color"
+      value={draft}
+      onFocus={() => {
+        openedWithRef.current = value
+      }}
+      onChange={(event) => {
+        setDraft(event.target.value)
+        onChange(event.target.value, false)
+      }}
+      onBlur={() => {
+        if (draft.toLowerCase() !== openedWithRef.current.toLowerCase()) onChange(draft, true)
+      }}
+      className="h-7 w-14 p-0.5"
+    />
+  )
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+      <Label className="text-xs text-muted-foreground font-normal">{label}</Label>
+      <div className="flex items-center gap-1 min-w-0">{children}</div>
+    </div>
+  )
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+// Exact values for the selected object. Rotations are shown in degrees and sent in radians.
+export function PropertiesPanel({ properties, onChange, className }: PropertiesPanelProps) {
+  const renderVector = (property: TransformProperty, vector: Vector3Tuple) => {
+    const isRotation = property === 'rotation'
+    return (
+      <Row key={property} label={TRANSFORM_LABELS[property]}>
+        {vector.map((component, index) => (
+          <NumberField
+            key={index}
+            label={`${TRANSFORM_LABELS[property]} ${AXES[index]}`}
+            value={isRotation ? toDegrees(component) : component}
+            onCommit={(typed) => {
+              const next = [...vector] as Vector3Tuple
+              next[index] = isRotation ? toRadians(typed) : typed
+              onChange({ section: 'transform', property, value: next }, true)
+            }}
+          />
+        ))}
+      </Row>
+    )
+  }
+
+  return (
+    <div className={cn("flex flex-col h-full bg-editor-background", className)}>
+      <div className="flex items-center px-3 h-10 border-b border-border shrink-0">
+        <span className="text-xs text-muted-foreground truncate">
+          {properties ? properties.object.name : 'Nothing selected'}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar p-3 space-y-5">
+        {!properties && (
+          <p className="text-xs text-muted-foreground">
+            Pick an object in the viewport or the outliner to edit its values.
+          </p>
+        )}
+
+        {properties?.transform && (
+          <Section title="Transform">
+            {(Object.keys(TRANSFORM_LABELS) as TransformProperty[]).map(property =>
+              renderVector(property, properties.transform[property])
+            )}
+          </Section>
+        )}
+
+        {properties?.light && (
+          <Section title="Light">
+            <Row label="Intensity">
+              <NumberField
+                value={properties.light.intensity}
+                min={0}
+                onCommit={(value) => onChange({ section: 'light', property: 'intensity', value }, true)}
+              />
+            </Row>
+            <Row label="Color">
+              <ColorField
+                value={properties.light.diffuse}
+                onChange={(value, commit) => onChange({ section: 'light', property: 'diffuse', value }, commit)}
+              />
+            </Row>
+          </Section>
+        )}
+
+        {properties?.camera && (
+          <Section title="Camera">
+            {properties.camera.fov !== null && (
+              <Row label="FOV (°)">
+                <NumberField
+                  value={toDegrees(properties.camera.fov)}
+                  min={1}
+                  onCommit={(degrees) => onChange({ section: 'camera', property: 'fov', value: toRadians(degrees) }, true)}
+                />
+              </Row>
+            )}
+            <Row label="Near clip">
+              <NumberField
+                value={properties.camera.minZ}
+                min={0}
+                onCommit={(value) => onChange({ section: 'camera', property: 'minZ', value }, true)}
+              />
+            </Row>
+            <Row label="Far clip">
+              <NumberField
+                value={properties.camera.maxZ}
+                min={0}
+                onCommit={(value) => onChange({ section: 'camera', property: 'maxZ', value }, true)}
+              />
+            </Row>
+          </Section>
+        )}
+
+        {properties?.material && (
+          <Section title={`Material: ${properties.material.name}`}>
+            {properties.material.colors.map(({ property, value }) => (
+              <Row key={property} label={COLOR_LABELS[property]}>
+                <ColorField
+                  value={value}
+                  onChange={(next, commit) => onChange({ section: 'material', property, value: next }, commit)}
+                />
+              </Row>
+            ))}
+          </Section>
+        )}
+      </div>
+    </div>
+  )
+}
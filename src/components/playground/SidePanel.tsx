@@ -0,0 +1,70 @@
+import type { ReactNode } from 'react'
+import { History, ListTree, Move3D, SlidersHorizontal } from 'lucide-react'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { cn } from '@/lib/utils'
+
+export type SidePanelTab = 'assets' | 'outliner' | 'properties' | 'history'
+
+interface SidePanelProps {
+  tab: SidePanelTab
+  onTabChange: (tab: SidePanelTab) => void
+  assetsContent: ReactNode
+  outlinerContent: ReactNode
+  propertiesContent: ReactNode
+  historyContent: ReactNode
+  className?: string
+}
+
+// Dock next to the canvas holding the Assets Library, the scene outliner, the selection's properties
+// and the undo history
+export function SidePanel({
+  tab,
+  onTabChange,
+  assetsContent,
+  outlinerContent,
+  propertiesContent,
+  historyContent,
+  className
+}: SidePanelProps) {
+  return (
+    <Tabs
+      value={tab}
+      onValueChange={(value) => onTabChange(value as SidePanelTab)}
+      className={cn("flex flex-col h-full", className)}
+    >
+      <div className="flex items-center px-2 h-9 border-b border-border shrink-0">
+        <TabsList className="h-7 p-0.5">
+          <TabsTrigger value="assets" className="h-6 px-2 text-xs">
+            <Move3D className="w-3.5 h-3.5 mr-1.5" />
+            Assets
+          </TabsTrigger>
+          <TabsTrigger value="outliner" className="h-6 px-2 text-xs">
+            <ListTree className="w-3.5 h-3.5 mr-1.5" />
+            Outliner
+          </TabsTrigger>
+          <TabsTrigger value="properties" className="h-6 px-2 text-xs">
+            <SlidersHorizontal className="w-3.5 h-3.5 mr-1.5" />
+            Properties
+          </TabsTrigger>
+          <TabsTrigger value="history" className="h-6 px-2 text-xs">
+            <History className="w-3.5 h-3.5 mr-1.5" />
+            History
+          </TabsTrigger>
+        </TabsList>
+      </div>
+
+      <TabsContent value="assets" className="flex-1 min-h-0 mt-0 overflow-hidden">
+        {assetsContent}
+      </TabsContent>
+      <TabsContent value="outliner" className="flex-1 min-h-0 mt-0">
+        {outlinerContent}
+      </TabsContent>
+      <TabsContent value="properties" className="flex-1 min-h-0 mt-0">
+        {propertiesContent}
+      </TabsContent>
+      <TabsContent value="history" className="flex-1 min-h-0 mt-0">
+        {historyContent}
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,103 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Download, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import type { StatsSample } from '@/lib/runtime/protocol'
+import { cn } from '@/lib/utils'
+
+interface StatsOverlayProps {
+  samples: StatsSample[]
+  onExport: () => void
+  onClear: () => void
+  onClose: () => void
+  className?: string
+}
+
+// One minute at two samples per second
+const CHART_WINDOW = 120
+
+const fpsChartConfig = {
+  fps: { label: 'FPS', color: 'hsl(var(--success))' }
+} satisfies ChartConfig
+
+const frameTimeChartConfig = {
+  frameTimeMs: { label: 'Frame', color: 'hsl(var(--primary))' },
+  renderTimeMs: { label: 'Render', color: 'hsl(var(--warning))' },
+  gpuFrameTimeMs: { label: 'GPU', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig
+
+function formatMs(value: number | null) {
+  return value === null ? 'n/a' : `${value.toFixed(2)} ms`
+}
+
+function Metric({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex items-baseline justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{typeof value === 'number' ? value.toLocaleString() : value}</span>
+    </div>
+  )
+}
+
+// Live engine and scene counters drawn over the canvas
+export function StatsOverlay({ samples, onExport, onClear, onClose, className }: StatsOverlayProps) {
+  const latest = samples[samples.length - 1]
+  const recent = samples.slice(-CHART_WINDOW)
+
+  return (
+    <div className={cn("w-72 bg-card/90 border border-border rounded-lg shadow-md text-xs", className)}>
+      <div className="flex items-center gap-1 px-2 h-8 border-b border-border">
+        <span className="font-medium">Stats</span>
+        <span className="text-muted-foreground">({samples.length} samples)</span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0 ml-auto" onClick={onExport} title="Export samples as CSV" disabled={samples.length === 0}>
+          <Download className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClear} title="Discard samples">
+          <RotateCcw className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Hide stats">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {!latest ? (
+        <div className="p-2 text-muted-foreground">Collecting samples...</div>
+      ) : (
+        <div className="p-2 space-y-2">
+          <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+            <Metric label="FPS" value={latest.fps.toFixed(0)} />
+            <Metric label="Draw calls" value={latest.drawCalls} />
+            <Metric label="Frame" value={formatMs(latest.frameTimeMs)} />
+            <Metric label="Meshes" value={latest.activeMeshes} />
+            <Metric label="Render" value={formatMs(latest.renderTimeMs)} />
+            <Metric label="Vertices" value={latest.vertices} />
+            <Metric label="GPU" value={formatMs(latest.gpuFrameTimeMs)} />
+            <Metric label="Textures" value={`${latest.sceneTextures} / ${latest.engineTextures}`} />
+          </div>
+
+          <ChartContainer config={fpsChartConfig} className="aspect-auto h-20 w-full">
+            <LineChart data={recent} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="timestamp" hide />
+              <YAxis width={28} tickLine={false} axisLine={false} domain={[0, 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Line dataKey="fps" stroke="var(--color-fps)" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+
+          <ChartContainer config={frameTimeChartConfig} className="aspect-auto h-20 w-full">
+            <LineChart data={recent} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="timestamp" hide />
+              <YAxis width={28} tickLine={false} axisLine={false} domain={[0, 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Line dataKey="frameTimeMs" stroke="var(--color-frameTimeMs)" dot={false} isAnimationActive={false} />
+              <Line dataKey="renderTimeMs" stroke="var(--color-renderTimeMs)" dot={false} isAnimationActive={false} />
+              <Line dataKey="gpuFrameTimeMs" stroke="var(--color-gpuFrameTimeMs)" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { formatDistanceToNow } from 'date-fns'
+import { AlertTriangle, CheckCircle2, Pin, ScanEye, Trash2, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import type { EngineInfo } from '@/lib/runtime/protocol'
+import type { PlaygroundScene, SceneReference } from '@/lib/supabase'
+import type { VisualRegressionResult, VisualRegressionStatus } from '@/hooks/use-visual-regression'
+
+// Up to this share of differing pixels still counts as a match
+const MAX_MISMATCH_PERCENTAGE = 0.1
+
+interface VisualRegressionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scene: PlaygroundScene | null
+  hasUnsavedChanges: boolean
+  engineInfo: EngineInfo | null
+  reference: SceneReference | null
+  result: VisualRegressionResult | null
+  status: VisualRegressionStatus
+  error: string | null
+  onPin: () => void
+  onCompare: () => void
+  onRemoveReference: () => void
+}
+
+function Figure({ title, src }: { title: string; src: string }) {
+  return (
+    <figure className="space-y-1 min-w-0">
+      <figcaption className="text-xs text-muted-foreground">{title}</figcaption>
+      <img src={src} alt={title} className="w-full rounded border border-border bg-muted" />
+    </figure>
+  )
+}
+
+export function VisualRegressionDialog({
+  open,
+  onOpenChange,
+  scene,
+  hasUnsavedChanges,
+  engineInfo,
+  reference,
+  result,
+  status,
+  error,
+  onPin,
+  onCompare,
+  onRemoveReference
+}: VisualRegressionDialogProps) {
+  const busy = status !== 'idle'
+  const passed = result ? result.diff.mismatchPercentage <= MAX_MISMATCH_PERCENTAGE : false
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Visual regression</DialogTitle>
+          <DialogDescription>
+            The saved code is rendered off screen with a fixed timestep and a seeded Math.random, then compared pixel by pixel with the pinned reference.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!scene?.id ? (
+          <p className="text-sm text-muted-foreground">Save the scene first; reference images are stored with saved scenes.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">{scene.name}</span>
+              {reference && (
+                <Badge variant="outline" className="text-xs font-normal">
+                  Reference {reference.width}×{reference.height}, {reference.frames} frames, {reference.engine} {reference.babylonVersion},{' '}
+                  {formatDistanceToNow(new Date(reference.capturedAt), { addSuffix: true })}
+                </Badge>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                {reference && (
+                  <Button variant="ghost" size="sm" onClick={onRemoveReference} disabled={busy} title="Remove the reference image">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={onPin} disabled={busy || engineInfo?.backend === 'null'}>
+                  <Pin className="w-4 h-4 mr-2" />
+                  {status === 'pinning' ? 'Rendering...' : reference ? 'Pin new reference' : 'Pin reference'}
+                </Button>
+                <Button size="sm" onClick={onCompare} disabled={busy || !reference || engineInfo?.backend === 'null'}>
+                  <ScanEye className="w-4 h-4 mr-2" />
+                  {status === 'comparing' ? 'Comparing...' : 'Compare'}
+                </Button>
+              </div>
+            </div>
+
+            {hasUnsavedChanges && (
+              <p className="flex items-center gap-2 text-xs text-warning">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                The editor has unsaved changes; snapshots render the saved code.
+              </p>
+            )}
+            {engineInfo?.backend === 'null' && (
+              <p className="text-xs text-warning">NullEngine draws nothing; switch to a rendering engine to take snapshots.</p>
+            )}
+            {reference && engineInfo && reference.engine !== engineInfo.backend && (
+              <p className="text-xs text-warning">
+                The reference was rendered with {reference.engine}; comparisons now run on {engineInfo.backend} and may differ for that reason alone.
+              </p>
+            )}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {result && (
+              <div className="flex items-center gap-2 text-sm">
+                {passed
+                  ? <CheckCircle2 className="w-4 h-4 text-success" />
+                  : <XCircle className="w-4 h-4 text-destructive" />}
+                <span className="font-medium">{passed ? 'Matches the reference' : 'Differs from the reference'}</span>
+                <span className="text-muted-foreground">
+                  {result.diff.mismatchPercentage.toFixed(2)}% of pixels differ ({result.diff.mismatchedPixels.toLocaleString()} of {result.diff.totalPixels.toLocaleString()})
+                </span>
+              </div>
+            )}
+
+            {reference && (
+              <div className="grid grid-cols-3 gap-3">
+                <Figure title="Reference" src={reference.dataUrl} />
+                {result && <Figure title="Current" src={result.actualDataUrl} />}
+                {result && <Figure title="Difference" src={result.diff.heatmapDataUrl} />}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { SandboxRuntime } from '@/lib/runtime/sandbox-runtime'
+import { AssetStore, StoredAsset } from '@/lib/asset-store'
+
+function toFingerprint(assets: StoredAsset[]) {
+  return assets.map(asset => `${asset.name}:${asset.size}:${asset.addedAt}`).join('|')
+}
+
+// Keeps the files stored with the current scene in sync with the sandbox. When switching
+// scopes brings in files the running code may already have asked for, onAssetsChanged
+// is called so the scene can be run again with them.
+export function useAssetStore(getRuntime: () => SandboxRuntime, scope: string, onAssetsChanged: () => void) {
+  const [assets, setAssets] = useState<StoredAsset[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const scopeRef = useRef(scope)
+  const fingerprintRef = useRef('')
+  const onAssetsChangedRef = useRef(onAssetsChanged)
+  scopeRef.current = scope
+  onAssetsChangedRef.current = onAssetsChanged
+
+  const publish = useCallback((forScope: string, next: StoredAsset[]) => {
+    // A newer scope took over while this one was reading
+    if (forScope !== scopeRef.current) return false
+    setAssets(next)
+    fingerprintRef.current = toFingerprint(next)
+    getRuntime().setAssets(next.map(asset => asset.file))
+    return true
+  }, [getRuntime])
+
+  const reload = useCallback(async () => {
+    const forScope = scopeRef.current
+    publish(forScope, await AssetStore.list(forScope))
+  }, [publish])
+
+  useEffect(() => {
+    AssetStore.list(scope)
+      .then(next => {
+        const changed = next.length > 0 && toFingerprint(next) !== fingerprintRef.current
+        if (publish(scope, next) && changed) {
+          onAssetsChangedRef.current()
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not read the asset store'))
+  }, [scope, publish])
+
+  // Throws when the files don't fit into the storage quota
+  const addFiles = useCallback(async (files: File[]) => {
+    await AssetStore.add(scopeRef.current, files)
+    await reload()
+  }, [reload])
+
+  const removeAsset = useCallback(async (name: string) => {
+    await AssetStore.remove(scopeRef.current, name)
+    await reload()
+  }, [reload])
+
+  const clearScope = useCallback(async (target: string) => {
+    await AssetStore.clear(target)
+    if (target === scopeRef.current) {
+      await reload()
+    }
+  }, [reload])
+
+  return { assets, error, addFiles, removeAsset, clearScope }
+}
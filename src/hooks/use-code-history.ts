@@ -0,0 +1,112 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+import type { HistoryEntry, HistoryEntryKind } from '@/lib/code-history'
+
+// Oldest steps are dropped past this; each one holds two copies of the code
+const MAX_ENTRIES = 100
+
+interface HistoryState {
+  entries: HistoryEntry[]
+  // Steps before this index are applied, the rest can be redone
+  position: number
+}
+
+export interface CodeHistory {
+  entries: HistoryEntry[]
+  position: number
+  canUndo: boolean
+  canRedo: boolean
+  record: (kind: HistoryEntryKind, label: string, before: string, after: string) => void
+  undo: () => boolean
+  redo: () => boolean
+  // Position 0 is the code before the first step
+  jumpTo: (position: number) => void
+  // Whether the code is still what the last step left, with no typing since
+  isSettled: () => boolean
+}
+
+// Scene edits and code replacements as steps that swap the whole code. Monaco's own undo
+// can't follow these, since the editor gets a new value each time. Typing between steps
+// is recorded as a step of its own when the next one is taken, so undoing never drops it.
+// setCode is only called for steps that change the code.
+export function useCodeHistory(code: string, setCode: (code: string) => void): CodeHistory {
+  const stateRef = useRef<HistoryState>({ entries: [], position: 0 })
+  const [state, setState] = useState(stateRef.current)
+  const codeRef = useRef(code)
+  // The code as the last step left it
+  const settledRef = useRef(code)
+  const nextIdRef = useRef(1)
+  codeRef.current = code
+
+  const commit = useCallback((next: HistoryState) => {
+    stateRef.current = next
+    setState(next)
+  }, [])
+
+  const push = useCallback((kind: HistoryEntryKind, label: string, before: string, after: string) => {
+    const { entries, position } = stateRef.current
+    const entry: HistoryEntry = { id: nextIdRef.current++, kind, label, before, after, timestamp: Date.now() }
+    // A new step discards the steps that were undone
+    const kept = [...entries.slice(0, position), entry].slice(-MAX_ENTRIES)
+    commit({ entries: kept, position: kept.length })
+    settledRef.current = after
+  }, [commit])
+
+  const captureTyping = useCallback((current: string) => {
+    if (current !== settledRef.current) {
+      push('typing', 'Edit code', settledRef.current, current)
+    }
+  }, [push])
+
+  const apply = useCallback((position: number, next: string) => {
+    commit({ ...stateRef.current, position })
+    settledRef.current = next
+    if (next === codeRef.current) return
+    // Ahead of the re-render, for a shortcut pressed again straight away
+    codeRef.current = next
+    setCode(next)
+  }, [commit, setCode])
+
+  const record = useCallback((kind: HistoryEntryKind, label: string, before: string, after: string) => {
+    if (before === after) return
+    captureTyping(before)
+    push(kind, label, before, after)
+  }, [captureTyping, push])
+
+  const undo = useCallback(() => {
+    captureTyping(codeRef.current)
+    const { entries, position } = stateRef.current
+    if (position === 0) return false
+    apply(position - 1, entries[position - 1].before)
+    return true
+  }, [captureTyping, apply])
+
+  const redo = useCallback(() => {
+    captureTyping(codeRef.current)
+    const { entries, position } = stateRef.current
+    if (position === entries.length) return false
+    apply(position + 1, entries[position].after)
+    return true
+  }, [captureTyping, apply])
+
+  const jumpTo = useCallback((target: number) => {
+    captureTyping(codeRef.current)
+    const { entries, position } = stateRef.current
+    if (target === position || target < 0 || target > entries.length) return
+    apply(target, target === 0 ? entries[0].before : entries[target - 1].after)
+  }, [captureTyping, apply])
+
+  const isSettled = useCallback(() => codeRef.current === settledRef.current, [])
+
+  return useMemo(() => ({
+    entries: state.entries,
+    position: state.position,
+    // Typing not yet recorded is undone as a step of its own, and cuts off what could be redone
+    canUndo: state.position > 0 || code !== settledRef.current,
+    canRedo: state.position < state.entries.length && code === settledRef.current,
+    record,
+    undo,
+    redo,
+    jumpTo,
+    isSettled
+  }), [state, code, record, undo, redo, jumpTo, isSettled])
+}
@@ -0,0 +1,15 @@
+import { useCallback, useRef } from 'react'
+import { SandboxRuntime } from '@/lib/runtime/sandbox-runtime'
+
+export function useSandboxRuntime() {
+  const runtimeRef = useRef<SandboxRuntime | null>(null)
+
+  const getRuntime = useCallback(() => {
+    if (!runtimeRef.current) {
+      runtimeRef.current = new SandboxRuntime()
+    }
+    return runtimeRef.current
+  }, [])
+
+  return { getRuntime }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react'
+import type { SandboxRuntime } from '@/lib/runtime/sandbox-runtime'
+import type { SceneCodeEdit } from '@/lib/runtime/protocol'
+import type { SourceLanguage } from '@/lib/compiler/types'
+import { getCompiler } from '@/lib/compiler/compiler-client'
+import { DEFAULT_SCENE_CODE } from '@/lib/default-scene'
+
+// Patches the edits the sandbox reports for gizmo drags and inserted assets into the
+// editor's code. Edits are applied one batch at a time, each to the latest code, so a
+// batch arriving while the previous one is in the worker doesn't undo it.
+export function useSceneCodeSync(
+  getRuntime: () => SandboxRuntime,
+  code: string,
+  language: SourceLanguage,
+  // Called with the code before the batch too, so the change can be recorded for undo
+  onCodeChange: (code: string, previous: string, edits: SceneCodeEdit[]) => void,
+  onError: (message: string) => void
+) {
+  const codeRef = useRef(code)
+  const languageRef = useRef(language)
+  const onCodeChangeRef = useRef(onCodeChange)
+  const onErrorRef = useRef(onError)
+  const queueRef = useRef(Promise.resolve())
+  codeRef.current = code
+  languageRef.current = language
+  onCodeChangeRef.current = onCodeChange
+  onErrorRef.current = onError
+
+  useEffect(() => {
+    const apply = async (edits: SceneCodeEdit[]) => {
+      try {
+        const previous = codeRef.current
+        // Empty code shows and runs the default scene, so that is what the edits apply to
+        const base = previous || DEFAULT_SCENE_CODE
+        const next = await getCompiler().applyEdits(base, languageRef.current, edits)
+        if (next === base) return
+        // Ahead of the re-render, for a batch that is already queued
+        codeRef.current = next
+        onCodeChangeRef.current(next, previous, edits)
+      } catch (error) {
+        onErrorRef.current(error instanceof Error ? error.message : 'Could not update the code')
+      }
+    }
+
+    return getRuntime().on('code-edits', (message) => {
+      queueRef.current = queueRef.current.then(() => apply(message.edits))
+    })
+  }, [getRuntime])
+}
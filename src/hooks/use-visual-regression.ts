@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { SandboxRuntime } from '@/lib/runtime/sandbox-runtime'
+import type { EngineInfo } from '@/lib/runtime/protocol'
+import { getCompiler } from '@/lib/compiler/compiler-client'
+import { PlaygroundScene, PlaygroundStorage, SceneReference } from '@/lib/supabase'
+import { VisualDiffResult, diffImages } from '@/lib/visual-diff'
+
+// Size of newly pinned references; comparisons render at the reference's own size
+const REFERENCE_WIDTH = 800
+const REFERENCE_HEIGHT = 600
+// Two seconds of fixed steps, so entry animations have settled
+const REFERENCE_FRAMES = 120
+const RANDOM_SEED = 1
+
+export type VisualRegressionStatus = 'idle' | 'pinning' | 'comparing'
+
+export interface VisualRegressionResult {
+  actualDataUrl: string
+  diff: VisualDiffResult
+  engine: EngineInfo['backend']
+  comparedAt: string
+}
+
+// Pins reference images to saved scenes and compares fresh renders of their saved code against them
+export function useVisualRegression(getRuntime: () => SandboxRuntime, scene: PlaygroundScene | null, engineInfo: EngineInfo | null) {
+  const [reference, setReference] = useState<SceneReference | null>(null)
+  const [result, setResult] = useState<VisualRegressionResult | null>(null)
+  const [status, setStatus] = useState<VisualRegressionStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const sceneId = scene?.id
+
+  useEffect(() => {
+    setReference(sceneId ? PlaygroundStorage.loadReference(sceneId) : null)
+    setResult(null)
+    setError(null)
+  }, [sceneId])
+
+  const renderSnapshot = useCallback(async (target: PlaygroundScene, width: number, height: number, frames: number) => {
+    const compiled = await getCompiler().compile(target.code, { language: target.language, typeCheck: false })
+    const syntaxError = compiled.diagnostics.find(diagnostic => diagnostic.severity === 'error')
+    if (syntaxError) {
+      throw new Error(`The saved code does not compile: ${syntaxError.message}`)
+    }
+
+    return getRuntime().request('render-snapshot', {
+      code: compiled.code,
+      width,
+      height,
+      frames,
+      seed: RANDOM_SEED
+    })
+  }, [getRuntime])
+
+  const pin = useCallback(async () => {
+    if (!scene?.id || !engineInfo) return
+
+    setStatus('pinning')
+    setError(null)
+    try {
+      const snapshot = await renderSnapshot(scene, REFERENCE_WIDTH, REFERENCE_HEIGHT, REFERENCE_FRAMES)
+      const next: SceneReference = {
+        dataUrl: snapshot.dataUrl,
+        width: snapshot.width,
+        height: snapshot.height,
+        frames: REFERENCE_FRAMES,
+        engine: engineInfo.backend,
+        babylonVersion: engineInfo.version,
+        capturedAt: new Date().toISOString()
+      }
+      PlaygroundStorage.saveReference(scene.id, next)
+      setReference(next)
+      setResult(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not pin the reference image')
+    } finally {
+      setStatus('idle')
+    }
+  }, [scene, engineInfo, renderSnapshot])
+
+  const compare = useCallback(async () => {
+    if (!scene || !reference || !engineInfo) return
+
+    setStatus('comparing')
+    setError(null)
+    try {
+      const snapshot = await renderSnapshot(scene, reference.width, reference.height, reference.frames)
+      const diff = await diffImages(reference.dataUrl, snapshot.dataUrl)
+      setResult({
+        actualDataUrl: snapshot.dataUrl,
+        diff,
+        engine: engineInfo.backend,
+        comparedAt: new Date().toISOString()
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not compare against the reference image')
+    } finally {
+      setStatus('idle')
+    }
+  }, [scene, reference, engineInfo, renderSnapshot])
+
+  const removeReference = useCallback(() => {
+    if (!sceneId) return
+    PlaygroundStorage.deleteReference(sceneId)
+    setReference(null)
+    setResult(null)
+  }, [sceneId])
+
+  return { reference, result, status, error, pin, compare, removeReference }
+}
@@ -0,0 +1,33 @@
+import type { TextureSource } from '@/lib/runtime/protocol'
+
+// Drag payload of Assets Library entries, so drop targets can tell them from files and text
+export const ASSET_DRAG_TYPE = 'application/x-babylon-playground-asset'
+
+// What a drop target needs to add a library entry to the scene
+export interface LibraryAsset {
+  name: string
+  type: 'mesh' | 'material' | 'texture' | 'light' | 'camera'
+  code: string
+  // Textures are applied to a mesh rather than run as code
+  texture?: TextureSource
+}
+
+export function isAssetDrag(dataTransfer: DataTransfer | null) {
+  return Boolean(dataTransfer?.types.includes(ASSET_DRAG_TYPE))
+}
+
+export function setAssetDragData(dataTransfer: DataTransfer, asset: LibraryAsset) {
+  const { name, type, code, texture } = asset
+  dataTransfer.setData(ASSET_DRAG_TYPE, JSON.stringify({ name, type, code, texture }))
+  dataTransfer.effectAllowed = 'copy'
+}
+
+export function getAssetDragData(dataTransfer: DataTransfer): LibraryAsset | null {
+  const data = dataTransfer.getData(ASSET_DRAG_TYPE)
+  if (!data) return null
+  try {
+    return JSON.parse(data)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+// Options an Assets Library entry asks for before it is inserted. The schema's defaults
+// give the code inserted without asking, as when the entry is dragged onto the canvas.
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export interface AssetParameters {
+  schema: z.AnyZodObject
+  // Throws on values the schema rejects
+  buildCode: (values: unknown) => string
+}
+
+export interface ParameterField {
+  name: string
+  label: string
+  kind: 'number' | 'color'
+  defaultValue: number | string
+  min?: number
+  max?: number
+  step?: number
+}
+
+export function defineParameters<T extends z.AnyZodObject>(
+  schema: T,
+  buildCode: (values: z.infer<T>) => string
+): AssetParameters {
+  return { schema, buildCode: values => buildCode(schema.parse(values)) }
+}
+
+export function numberParameter(label: string, defaultValue: number, range: { min: number; max: number; integer?: boolean }) {
+  const number = z.coerce.number().min(range.min).max(range.max)
+  return (range.integer ? number.int() : number).default(defaultValue).describe(label)
+}
+
+export function colorParameter(label: string, defaultValue: string) {
+  return z.string().regex(HEX_COLOR, 'Expected a color like #ff8800').default(defaultValue).describe(label)
+}
+
+export function toColor3Code(hex: string) {
+  return `BABYLON.Color3.FromHexString("${hex}")`
+}
+
+// The code an entry inserts when nobody changed its options
+export function getDefaultCode(parameters: AssetParameters) {
+  return parameters.buildCode({})
+}
+
+// Form fields for the parameters made with numberParameter and colorParameter
+export function getParameterFields(parameters: AssetParameters): ParameterField[] {
+  return Object.entries(parameters.schema.shape as z.ZodRawShape).map(([name, field]) => {
+    const withDefault = field as z.ZodDefault<z.ZodTypeAny>
+    const inner = withDefault.removeDefault()
+    const defaultValue = withDefault._def.defaultValue()
+    const label = field.description ?? name
+
+    if (inner instanceof z.ZodNumber) {
+      return {
+        name,
+        label,
+        kind: 'number',
+        defaultValue,
+        min: inner.minValue ?? undefined,
+        max: inner.maxValue ?? undefined,
+        step: inner.isInt ? 1 : 0.1
+      }
+    }
+    return { name, label, kind: 'color', defaultValue }
+  })
+}
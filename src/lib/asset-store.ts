@@ -0,0 +1,129 @@
+import { getFileExtension } from './model-files'
+
+// Files added to a scene, kept in IndexedDB since localStorage can't hold binary
+// data of this size. Assets belong to a saved scene, or to the unsaved draft.
+
+export const DRAFT_SCOPE = 'draft'
+
+export interface StoredAsset {
+  // Scene id, or DRAFT_SCOPE
+  scope: string
+  name: string
+  mimeType: string
+  size: number
+  file: File
+  addedAt: string
+}
+
+const DB_NAME = 'babylon_playground_assets'
+const DB_VERSION = 1
+const STORE_NAME = 'assets'
+const SCOPE_INDEX = 'scope'
+
+// Browsers leave these empty or guess wrong for 3D formats
+const MIME_TYPES: Record<string, string> = {
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.obj': 'model/obj',
+  '.stl': 'model/stl',
+  '.babylon': 'application/json',
+  '.bin': 'application/octet-stream',
+  '.mtl': 'text/plain',
+  '.ktx2': 'image/ktx2',
+  '.dds': 'image/vnd-ms.dds',
+  '.env': 'application/octet-stream'
+}
+
+export function getMimeType(file: File) {
+  return MIME_TYPES[getFileExtension(file.name)] ?? (file.type || 'application/octet-stream')
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['scope', 'name'] })
+        store.createIndex(SCOPE_INDEX, 'scope')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        database = null
+        reject(request.error ?? new Error('Could not open the asset store'))
+      }
+    })
+  }
+  return database
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once everything queued by work is committed
+async function transaction(mode: IDBTransactionMode, work: (store: IDBObjectStore) => void) {
+  const db = await openDatabase()
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    work(tx.objectStore(STORE_NAME))
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('The asset store transaction was aborted'))
+  })
+}
+
+export class AssetStore {
+  static async list(scope: string): Promise<StoredAsset[]> {
+    const db = await openDatabase()
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(SCOPE_INDEX)
+    const assets = await toPromise<StoredAsset[]>(index.getAll(scope))
+    return assets.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Files replace stored ones of the same name
+  static async add(scope: string, files: File[]): Promise<StoredAsset[]> {
+    const addedAt = new Date().toISOString()
+    const assets = files.map(file => ({
+      scope,
+      name: file.name,
+      mimeType: getMimeType(file),
+      size: file.size,
+      file,
+      addedAt
+    }))
+    await transaction('readwrite', store => {
+      assets.forEach(asset => store.put(asset))
+    })
+    return assets
+  }
+
+  static async remove(scope: string, name: string) {
+    await transaction('readwrite', store => {
+      store.delete([scope, name])
+    })
+  }
+
+  static async clear(scope: string) {
+    const assets = await this.list(scope)
+    await transaction('readwrite', store => {
+      assets.forEach(asset => store.delete([scope, asset.name]))
+    })
+  }
+
+  // For a draft that was just saved as a scene
+  static async move(fromScope: string, toScope: string) {
+    const assets = await this.list(fromScope)
+    if (assets.length === 0) return
+    await transaction('readwrite', store => {
+      assets.forEach(asset => {
+        store.put({ ...asset, scope: toScope })
+        store.delete([fromScope, asset.name])
+      })
+    })
+  }
+}
@@ -0,0 +1,36 @@
+// Scene code refers to stored files as asset://<name>; the sandbox resolves these
+// to the file contents, so scenes with their own textures and models work offline.
+
+export const ASSET_URL_PREFIX = 'asset://'
+
+export function toAssetUrl(fileName: string) {
+  return ASSET_URL_PREFIX + fileName
+}
+
+// Stored file name an asset:// URL points at, or null for any other URL
+export function parseAssetUrl(url: string): string | null {
+  if (!url.startsWith(ASSET_URL_PREFIX)) return null
+  try {
+    return decodeURIComponent(url.slice(ASSET_URL_PREFIX.length))
+  } catch {
+    return url.slice(ASSET_URL_PREFIX.length)
+  }
+}
+
+// Lines of code that load the file: its asset:// URL, or its quoted name on a line that
+// also has the asset:// root URL, as in ImportMeshAsync("", "asset://", "robot.glb")
+export function findAssetReferences(code: string, fileName: string): number[] {
+  const url = toAssetUrl(fileName).toLowerCase()
+  const quoted = ['"', "'", '`'].map(quote => `${quote}${fileName.toLowerCase()}${quote}`)
+  const lines: number[] = []
+
+  code.split('\n').forEach((text, index) => {
+    const line = text.toLowerCase()
+    const loadsFile = line.includes(url) ||
+      (line.includes(ASSET_URL_PREFIX) && quoted.some(name => line.includes(name)))
+    if (loadsFile) {
+      lines.push(index + 1)
+    }
+  })
+  return lines
+}
@@ -0,0 +1,69 @@
+import type { SceneCodeEdit } from '@/lib/runtime/protocol'
+
+// Undo/redo steps shared by the host's history and the sandbox's key forwarding
+
+export type HistoryCommand = 'undo' | 'redo'
+
+// 'typing' covers editor changes made between two recorded steps
+export type HistoryEntryKind = 'transform' | 'insert' | 'delete' | 'property' | 'replace' | 'typing'
+
+export interface HistoryEntry {
+  id: number
+  kind: HistoryEntryKind
+  label: string
+  // The whole code on each side, so any step can be jumped to directly
+  before: string
+  after: string
+  timestamp: number
+}
+
+export const HISTORY_SHORTCUT_LABELS: Record<HistoryCommand, string> = {
+  undo: 'Ctrl+Z',
+  redo: 'Ctrl+Shift+Z'
+}
+
+type ShortcutEvent = Pick<KeyboardEvent, 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'>
+
+// Ctrl+Y is accepted for redo as well, as in most Windows editors
+export function getHistoryCommand(event: ShortcutEvent): HistoryCommand | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null
+  if (event.code === 'KeyZ') return event.shiftKey ? 'redo' : 'undo'
+  if (event.code === 'KeyY' && !event.shiftKey) return 'redo'
+  return null
+}
+
+const TRANSFORM_VERBS = {
+  position: 'Move',
+  rotation: 'Rotate',
+  scaling: 'Scale'
+}
+
+function describeEdit(edit: SceneCodeEdit): { kind: HistoryEntryKind; label: string } {
+  switch (edit.kind) {
+    case 'transform':
+      return { kind: 'transform', label: `${TRANSFORM_VERBS[edit.property]} ${edit.target.name}` }
+    case 'insert':
+      return { kind: 'insert', label: 'Insert asset' }
+    case 'dispose':
+      return { kind: 'delete', label: `Delete ${edit.target.name}` }
+    case 'call':
+      return { kind: 'property', label: `${edit.target.name}.${edit.method}(${edit.args})` }
+    case 'assign':
+      return { kind: 'property', label: `Set ${edit.target.name}.${edit.property}` }
+    case 'rename':
+      return { kind: 'property', label: `Rename ${edit.target.name} to ${edit.name}` }
+    case 'parent':
+      return {
+        kind: 'property',
+        label: edit.parent ? `Parent ${edit.target.name} to ${edit.parent.name}` : `Unparent ${edit.target.name}`
+      }
+  }
+}
+
+// A batch is one step; it is named after its first edit, and a deletion or insertion anywhere in it wins
+export function describeEdits(edits: SceneCodeEdit[]): { kind: HistoryEntryKind; label: string } {
+  const described = edits.map(describeEdit)
+  const [first] = described
+  if (!first) return { kind: 'replace', label: 'Edit code' }
+  return described.find(step => step.kind === 'delete') ?? described.find(step => step.kind === 'insert') ?? first
+}
@@ -0,0 +1,12 @@
+// Declarations of the global BABYLON namespace shipped with the UMD package.
+// Several megabytes, so only fetched when the editor or type-checker needs them.
+export const BABYLON_DTS_FILE = 'babylon.d.ts'
+
+let declarations: Promise<string> | null = null
+
+export function loadBabylonDeclarations(): Promise<string> {
+  if (!declarations) {
+    declarations = import('babylonjs/babylon.d.ts?raw').then(module => module.default)
+  }
+  return declarations
+}
@@ -0,0 +1,561 @@
+import * as ts from 'typescript'
+import type { SceneCodeEdit, SceneObjectRef, TransformProperty, Vector3Tuple } from '@/lib/runtime/protocol'
+import type { SourceLanguage } from './types'
+
+// Applies the scene manager's edits to the user's code. Each edit parses the code, finds
+// the statements it concerns and rewrites only their text, so comments, formatting and
+// hand-written logic survive gizmo drags and inserted assets.
+
+interface TextChange {
+  start: number
+  end: number
+  text: string
+}
+
+// Where an object's statements can refer to it: its variable, or a lookup by name
+interface ResolvedObject {
+  target: SceneObjectRef
+  variable: string | null
+  // The statement declaring the variable, when inserted statements can see it
+  declaration: ts.VariableStatement | null
+  lookup: string
+  // What inserted statements use
+  expression: string
+}
+
+const COMPONENTS = ['x', 'y', 'z']
+// Differences below this are rounding, not edits
+const EPSILON = 1e-4
+
+const LOOKUP_METHODS: Record<SceneObjectRef['kind'], string> = {
+  mesh: 'getMeshByName',
+  'transform-node': 'getTransformNodeByName',
+  light: 'getLightByName',
+  camera: 'getCameraByName',
+  material: 'getMaterialByName'
+}
+
+// Values arrive rounded as far as where they came from wants; this only drops float noise
+function formatNumber(value: number) {
+  return String(Number(value.toFixed(4)))
+}
+
+function formatVector(values: Vector3Tuple) {
+  return `new BABYLON.Vector3(${values.map(formatNumber).join(', ')})`
+}
+
+function parse(code: string, language: SourceLanguage) {
+  const typescript = language === 'typescript'
+  return ts.createSourceFile(
+    typescript ? '/scene.ts' : '/scene.js',
+    code,
+    ts.ScriptTarget.ES2020,
+    true,
+    typescript ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  )
+}
+
+function applyChanges(code: string, changes: TextChange[]) {
+  return [...changes]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, change) => text.slice(0, change.start) + change.text + text.slice(change.end), code)
+}
+
+function forEachNode(node: ts.Node, visit: (node: ts.Node) => void) {
+  visit(node)
+  ts.forEachChild(node, child => forEachNode(child, visit))
+}
+
+function findNodes<T extends ts.Node>(root: ts.Node, match: (node: ts.Node) => node is T): T[] {
+  const nodes: T[] = []
+  forEachNode(root, node => {
+    if (match(node)) nodes.push(node)
+  })
+  return nodes
+}
+
+function replaceNode(node: ts.Node, text: string): TextChange {
+  return { start: node.getStart(), end: node.getEnd(), text }
+}
+
+function getCalleeName(expression: ts.Expression) {
+  if (ts.isIdentifier(expression)) return expression.text
+  if (ts.isPropertyAccessExpression(expression)) return expression.name.text
+  return ''
+}
+
+function isAssignment(node: ts.Node): node is ts.BinaryExpression {
+  return ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+}
+
+function getLineIndent(code: string, position: number) {
+  const lineStart = code.lastIndexOf('\n', position - 1) + 1
+  return code.slice(lineStart).match(/^[ \t]*/)[0]
+}
+
+// After anything else on the line, so a trailing comment stays with its statement
+function getLineEnd(code: string, position: number) {
+  const newline = code.indexOf('\n', position)
+  if (newline === -1) return code.length
+  return code[newline - 1] === '\r' ? newline - 1 : newline
+}
+
+function indent(code: string, prefix: string) {
+  return code.split('\n').map(line => (line ? prefix + line : line)).join('\n')
+}
+
+function isCreateScene(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  if (ts.isFunctionDeclaration(node)) {
+    return node.name?.text === 'createScene' && node.body !== undefined
+  }
+  return (
+    (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) &&
+    ts.isBlock(node.body) &&
+    ts.isVariableDeclaration(node.parent) &&
+    ts.isIdentifier(node.parent.name) &&
+    node.parent.name.text === 'createScene'
+  )
+}
+
+function findCreateScene(sourceFile: ts.SourceFile): ts.FunctionLikeDeclaration | null {
+  return findNodes(sourceFile, isCreateScene)[0] ?? null
+}
+
+function getSceneBody(sourceFile: ts.SourceFile): ts.Block | ts.SourceFile {
+  const createScene = findCreateScene(sourceFile)
+  return createScene?.body && ts.isBlock(createScene.body) ? createScene.body : sourceFile
+}
+
+// Statements go before createScene's final return, or at the end of the code without one
+function insertStatements(code: string, sourceFile: ts.SourceFile, statements: string): TextChange[] {
+  const createScene = findCreateScene(sourceFile)
+  const body = createScene?.body && ts.isBlock(createScene.body) ? createScene.body : null
+  const changes: TextChange[] = []
+
+  // Inserted model imports are awaited
+  const isAsync = createScene && ts.getModifiers(createScene as ts.HasModifiers)?.some(
+    modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword
+  )
+  if (createScene && !isAsync && /\bawait\b/.test(statements)) {
+    const functionKeyword = createScene.getChildren().find(child => child.kind === ts.SyntaxKind.FunctionKeyword)
+    const start = (functionKeyword ?? createScene).getStart()
+    changes.push({ start, end: start, text: 'async ' })
+  }
+
+  if (!body) {
+    const separator = code.endsWith('\n') ? '\n' : '\n\n'
+    changes.push({ start: code.length, end: code.length, text: `${separator}${statements}\n` })
+    return changes
+  }
+
+  const last = body.statements[body.statements.length - 1]
+  if (last && ts.isReturnStatement(last)) {
+    const lineIndent = getLineIndent(code, last.getStart())
+    const lineStart = code.lastIndexOf('\n', last.getStart() - 1) + 1
+    if (lineStart + lineIndent.length === last.getStart()) {
+      const previousLine = code.slice(code.lastIndexOf('\n', lineStart - 2) + 1, lineStart)
+      const gap = previousLine.trim() ? '\n' : ''
+      changes.push({ start: lineStart, end: lineStart, text: `${gap}${indent(statements, lineIndent)}\n\n` })
+    } else {
+      changes.push({ start: last.getStart(), end: last.getStart(), text: `${indent(statements, lineIndent).trimStart()}\n${lineIndent}` })
+    }
+    return changes
+  }
+
+  // No final return: before the closing brace, indented like the other statements
+  const closingBrace = body.getEnd() - 1
+  const statementIndent = last ? getLineIndent(code, last.getStart()) : `${getLineIndent(code, closingBrace)}    `
+  const lineStart = code.lastIndexOf('\n', closingBrace - 1) + 1
+  changes.push({ start: lineStart, end: lineStart, text: `\n${indent(statements, statementIndent)}\n` })
+  return changes
+}
+
+// Whether the call or constructor makes an object of the kind: MeshBuilder.CreateBox(...) or
+// new BABYLON.Mesh(...) for meshes, new BABYLON.PointLight(...) for lights, and so on
+function createsKind(node: ts.CallExpression | ts.NewExpression, kind: SceneObjectRef['kind']) {
+  const callee = getCalleeName(node.expression)
+  if (ts.isCallExpression(node)) {
+    return kind === 'mesh' && /^Create/.test(callee)
+  }
+  switch (kind) {
+    case 'mesh': return /Mesh$/.test(callee)
+    case 'transform-node': return callee === 'TransformNode'
+    case 'light': return /Light$/.test(callee)
+    case 'camera': return /Camera$/.test(callee)
+    case 'material': return /Material$/.test(callee)
+  }
+}
+
+// Calls and constructors taking the object's name first: its creation, or a lookup such as
+// scene.getMeshByName("box"). A mesh and a material may share a name, so both go by kind.
+function findNamedCalls(sourceFile: ts.SourceFile, target: SceneObjectRef, includeLookups: boolean) {
+  return findNodes(sourceFile, (node): node is ts.CallExpression | ts.NewExpression => {
+    if (!ts.isCallExpression(node) && !ts.isNewExpression(node)) return false
+    const [first] = node.arguments ?? []
+    if (first === undefined || !ts.isStringLiteralLike(first) || first.text !== target.name) return false
+    if (ts.isCallExpression(node) && getCalleeName(node.expression) === LOOKUP_METHODS[target.kind]) {
+      return includeLookups
+    }
+    return createsKind(node, target.kind)
+  })
+}
+
+// The variable an object is created into, found by the name passed to its constructor or builder
+function resolveObject(sourceFile: ts.SourceFile, target: SceneObjectRef): ResolvedObject {
+  const lookup = `scene.${LOOKUP_METHODS[target.kind]}(${JSON.stringify(target.name)})`
+  const creation = findNamedCalls(sourceFile, target, false).find(node => getDeclaration(node) !== null)
+
+  const declaration = creation ? getDeclaration(creation) : null
+  if (!declaration) {
+    return { target, variable: null, declaration: null, lookup, expression: lookup }
+  }
+
+  const variable = (declaration.name as ts.Identifier).text
+  const statement = declaration.parent.parent
+  const body = getSceneBody(sourceFile)
+  // Declared inside a loop or block, the variable is out of reach of inserted statements
+  const visible = ts.isVariableStatement(statement) && (statement.parent === body || statement.parent === sourceFile)
+  return {
+    target,
+    variable,
+    declaration: visible ? statement : null,
+    lookup,
+    expression: visible ? variable : lookup
+  }
+}
+
+// const box = <node>, allowing await, parentheses and type assertions around it
+function getDeclaration(node: ts.Node): ts.VariableDeclaration | null {
+  let parent = node.parent
+  while (ts.isAwaitExpression(parent) || ts.isParenthesizedExpression(parent) || ts.isAsExpression(parent)) {
+    parent = parent.parent
+  }
+  return ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name) ? parent : null
+}
+
+// scene.getMeshByName("box") for the mesh box, whatever the quotes and spacing
+function isLookupOf(node: ts.Node, target: SceneObjectRef) {
+  if (!ts.isCallExpression(node) || getCalleeName(node.expression) !== LOOKUP_METHODS[target.kind]) return false
+  const [name] = node.arguments
+  return name !== undefined && ts.isStringLiteralLike(name) && name.text === target.name
+}
+
+// object.property, by variable or by lookup
+function isPropertyOf(node: ts.Node, object: ResolvedObject, property: string) {
+  if (!ts.isPropertyAccessExpression(node) || node.name.text !== property) return false
+  const owner = node.expression
+  return (object.variable !== null && ts.isIdentifier(owner) && owner.text === object.variable) ||
+    isLookupOf(owner, object.target)
+}
+
+// 1, -0.5 or 2e3; anything computed is the user's and is never rewritten
+function isNumberLiteral(expression: ts.Expression) {
+  return ts.isNumericLiteral(expression) || (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  )
+}
+
+// What a statement directly in createScene's body sets of the property: the expression
+// holding each component, or null for a component it sets in a way that can't be patched
+function getComponentSetters(expression: ts.Expression, object: ResolvedObject, property: string) {
+  // box.position = new BABYLON.Vector3(0, 1, 0), or Vector3.Zero() and the like
+  if (isAssignment(expression) && isPropertyOf(expression.left, object, property)) {
+    const vector = expression.right
+    if (ts.isNewExpression(vector) && getCalleeName(vector.expression) === 'Vector3' && vector.arguments?.length === 3) {
+      return new Map([0, 1, 2].map(index => [index, vector.arguments[index]]))
+    }
+    return new Map([0, 1, 2].map(index => [index, null]))
+  }
+
+  // box.position.y = 1
+  if (
+    isAssignment(expression) &&
+    ts.isPropertyAccessExpression(expression.left) &&
+    COMPONENTS.includes(expression.left.name.text) &&
+    isPropertyOf(expression.left.expression, object, property)
+  ) {
+    return new Map([[COMPONENTS.indexOf(expression.left.name.text), expression.right]])
+  }
+
+  // box.position.set(0, 1, 0)
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression) &&
+    ['set', 'copyFromFloats'].includes(expression.expression.name.text) &&
+    expression.arguments.length === 3 &&
+    isPropertyOf(expression.expression.expression, object, property)
+  ) {
+    return new Map([0, 1, 2].map(index => [index, expression.arguments[index]]))
+  }
+  return null
+}
+
+// Only numbers written directly in createScene's body are patched, each where it is last
+// set there. Statements in callbacks, loops and handlers are left alone, and a component
+// set by an expression gets an override after the statement that sets it.
+function applyTransform(
+  code: string,
+  sourceFile: ts.SourceFile,
+  target: SceneObjectRef,
+  property: TransformProperty,
+  previous: Vector3Tuple,
+  next: Vector3Tuple
+): TextChange[] {
+  const changed = [0, 1, 2].filter(index => Math.abs(next[index] - previous[index]) > EPSILON)
+  if (changed.length === 0) return []
+
+  const object = resolveObject(sourceFile, target)
+  // For each component, the last top-level statement setting it and the expression it uses
+  const lastSetters = new Map<number, { statement: ts.Statement; value: ts.Expression | null }>()
+  getSceneBody(sourceFile).statements.forEach(statement => {
+    if (!ts.isExpressionStatement(statement)) return
+    getComponentSetters(statement.expression, object, property)?.forEach((value, index) => {
+      lastSetters.set(index, { statement, value })
+    })
+  })
+
+  if (lastSetters.size === 0) {
+    return insertForObject(code, sourceFile, object, `${object.expression}.${property} = ${formatVector(next)};`)
+  }
+
+  const changes: TextChange[] = []
+  const overrides: number[] = []
+  changed.forEach(index => {
+    const setter = lastSetters.get(index)
+    if (setter?.value && isNumberLiteral(setter.value)) {
+      changes.push(replaceNode(setter.value, formatNumber(next[index])))
+    } else {
+      overrides.push(index)
+    }
+  })
+
+  if (overrides.length > 0) {
+    // After every statement that sets one of them, so nothing at the top level undoes the override
+    const statement = [...lastSetters.values()]
+      .map(setter => setter.statement)
+      .reduce((latest, current) => (current.getStart() > latest.getStart() ? current : latest))
+    const lineIndent = getLineIndent(code, statement.getStart())
+    const lines = overrides.map(index =>
+      `\n${lineIndent}${object.expression}.${property}.${COMPONENTS[index]} = ${formatNumber(next[index])};`
+    )
+    const end = getLineEnd(code, statement.getEnd())
+    changes.push({ start: end, end, text: lines.join('') })
+  }
+  return changes
+}
+
+// Right after the object's declaration when inserted statements can see it, else before the return
+function insertForObject(code: string, sourceFile: ts.SourceFile, object: ResolvedObject, statement: string): TextChange[] {
+  if (object.declaration) {
+    const end = getLineEnd(code, object.declaration.getEnd())
+    return [{ start: end, end, text: `\n${getLineIndent(code, object.declaration.getStart())}${statement}` }]
+  }
+  return insertStatements(code, sourceFile, statement)
+}
+
+function applyCall(code: string, sourceFile: ts.SourceFile, edit: Extract<SceneCodeEdit, { kind: 'call' }>): TextChange[] {
+  const object = resolveObject(sourceFile, edit.target)
+  const calls = findNodes(sourceFile, (node): node is ts.CallExpression =>
+    ts.isCallExpression(node) && isPropertyOf(node.expression, object, edit.method)
+  )
+  const call = calls[calls.length - 1]
+  if (call) {
+    return [{ start: call.arguments.pos, end: call.arguments.end, text: edit.args }]
+  }
+  return insertForObject(code, sourceFile, object, `${object.expression}.${edit.method}(${edit.args});`)
+}
+
+function toStringLiteral(original: ts.StringLiteralLike, code: string, value: string) {
+  const quote = code[original.getStart()]
+  const escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`)
+  return `${quote}${escaped}${quote}`
+}
+
+function applyDispose(code: string, sourceFile: ts.SourceFile, edit: Extract<SceneCodeEdit, { kind: 'dispose' }>): TextChange[] {
+  const object = resolveObject(sourceFile, edit.target)
+  const disposed = findNodes(sourceFile, (node): node is ts.CallExpression =>
+    ts.isCallExpression(node) && isPropertyOf(node.expression, object, 'dispose')
+  )
+  if (disposed.length > 0) return []
+  return insertStatements(code, sourceFile, `${object.expression}.dispose();`)
+}
+
+// Creations take the name first: new BABYLON.PointLight("name", ...), MeshBuilder.CreateBox("name", ...),
+// and so do lookups: scene.getMeshByName("name")
+function applyRename(code: string, sourceFile: ts.SourceFile, edit: Extract<SceneCodeEdit, { kind: 'rename' }>): TextChange[] {
+  const object = resolveObject(sourceFile, edit.target)
+  const names = findNamedCalls(sourceFile, edit.target, true).map(node => node.arguments[0] as ts.StringLiteralLike)
+
+  if (names.length === 0) {
+    return insertStatements(code, sourceFile, `${object.lookup}.name = ${JSON.stringify(edit.name)};`)
+  }
+  return names.map(literal => replaceNode(literal, toStringLiteral(literal, code, edit.name)))
+}
+
+function applyParent(
+  code: string,
+  sourceFile: ts.SourceFile,
+  language: SourceLanguage,
+  edit: Extract<SceneCodeEdit, { kind: 'parent' }>
+): TextChange[] {
+  let value = 'null'
+  if (edit.parent) {
+    const object = resolveObject(sourceFile, edit.target)
+    const parent = resolveObject(sourceFile, edit.parent)
+    const assignments = findNodes(sourceFile, (node): node is ts.BinaryExpression =>
+      isAssignment(node) && isPropertyOf(node.left, object, 'parent')
+    )
+    const assignment = assignments[assignments.length - 1]
+    // A parent declared after the assignment being patched isn't initialized there yet
+    const declaredLater = assignment && parent.declaration && parent.declaration.getStart() > assignment.getStart()
+    value = declaredLater ? parent.lookup : parent.expression
+  }
+  return applyAssign(code, sourceFile, language, { kind: 'assign', target: edit.target, property: 'parent', value })
+}
+
+// Variables the code declares, by name, with what each is initialized to
+function getDeclaredVariables(sourceFile: ts.SourceFile) {
+  const declared = new Map<string, ts.VariableDeclaration>()
+  findNodes(sourceFile, ts.isVariableDeclaration).forEach(declaration => {
+    if (ts.isIdentifier(declaration.name)) declared.set(declaration.name.text, declaration)
+  })
+  return declared
+}
+
+function getFreeName(name: string, taken: Set<string>) {
+  let index = 2
+  while (taken.has(`${name}${index}`)) index++
+  return `${name}${index}`
+}
+
+// Renames the snippet's identifiers, leaving property names such as mesh.box alone
+function renameIdentifiers(snippet: string, language: SourceLanguage, renames: Map<string, string>) {
+  if (renames.size === 0) return snippet
+  const identifiers = findNodes(parse(snippet, language), (node): node is ts.Identifier =>
+    ts.isIdentifier(node) &&
+    renames.has(node.text) &&
+    !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) &&
+    !(ts.isPropertyAssignment(node.parent) && node.parent.name === node)
+  )
+  return applyChanges(snippet, identifiers.map(identifier => replaceNode(identifier, renames.get(identifier.text))))
+}
+
+// Top-level variables of an inserted snippet get a free name when the code already has one by that name
+function renameTakenVariables(sourceFile: ts.SourceFile, snippet: string, language: SourceLanguage) {
+  const declared = getDeclaredVariables(sourceFile)
+  const snippetNames = getDeclaredVariables(parse(snippet, language))
+  const taken = new Set([...declared.keys(), ...snippetNames.keys()])
+  const renames = new Map<string, string>()
+  snippetNames.forEach((declaration, name) => {
+    if (!declared.has(name) || !ts.isSourceFile(declaration.parent.parent.parent)) return
+    const free = getFreeName(name, taken)
+    taken.add(free)
+    renames.set(name, free)
+  })
+  return renameIdentifiers(snippet, language, renames)
+}
+
+function getInitializerText(declaration: ts.VariableDeclaration) {
+  return declaration.initializer?.getText().replace(/\s+/g, '') ?? ''
+}
+
+// Declarations of the snippet the code doesn't have yet, with the statements that follow each.
+// A variable the code declares with the same initializer is the one the snippet means, as when
+// a material is applied again; one declared for something else is renamed in the snippet.
+function getMissingDeclarations(sourceFile: ts.SourceFile, declarations: string, language: SourceLanguage) {
+  const declared = getDeclaredVariables(sourceFile)
+  const taken = new Set(declared.keys())
+  const renames = new Map<string, string>()
+  getDeclaredVariables(parse(declarations, language)).forEach((declaration, name) => {
+    taken.add(name)
+    const existing = declared.get(name)
+    if (existing && getInitializerText(existing) !== getInitializerText(declaration)) {
+      const free = getFreeName(name, taken)
+      taken.add(free)
+      renames.set(name, free)
+    }
+  })
+
+  const renamed = renameIdentifiers(declarations, language, renames)
+  const snippet = parse(renamed, language)
+  const groups: ts.Statement[][] = []
+  snippet.statements.forEach(statement => {
+    if (ts.isVariableStatement(statement) || groups.length === 0) {
+      groups.push([statement])
+    } else {
+      groups[groups.length - 1].push(statement)
+    }
+  })
+
+  const code = groups
+    .filter(group => {
+      const [first] = group
+      if (!ts.isVariableStatement(first)) return true
+      return first.declarationList.declarations.some(
+        declaration => ts.isIdentifier(declaration.name) && !declared.has(declaration.name.text)
+      )
+    })
+    .map(group => renamed.slice(group[0].getFullStart(), group[group.length - 1].getEnd()).trim())
+    .join('\n')
+  return { code, renames }
+}
+
+function applyAssign(
+  code: string,
+  sourceFile: ts.SourceFile,
+  language: SourceLanguage,
+  edit: Extract<SceneCodeEdit, { kind: 'assign' }>
+): TextChange[] {
+  const object = resolveObject(sourceFile, edit.target)
+  const missing = edit.declarations ? getMissingDeclarations(sourceFile, edit.declarations, language) : null
+  const declarations = missing?.code ?? ''
+  // The value names the snippet's variables, which may have been renamed
+  const value = missing ? renameIdentifiers(edit.value, language, missing.renames) : edit.value
+
+  const assignments = findNodes(sourceFile, (node): node is ts.BinaryExpression =>
+    isAssignment(node) && isPropertyOf(node.left, object, edit.property)
+  )
+  const assignment = assignments[assignments.length - 1]
+  if (!assignment) {
+    const statement = `${object.expression}.${edit.property} = ${value};`
+    return insertStatements(code, sourceFile, declarations ? `${declarations}\n${statement}` : statement)
+  }
+
+  const changes = [replaceNode(assignment.right, value)]
+  if (declarations) {
+    let statement: ts.Node = assignment
+    while (!ts.isBlock(statement.parent) && !ts.isSourceFile(statement.parent)) {
+      statement = statement.parent
+    }
+    const lineIndent = getLineIndent(code, statement.getStart())
+    const lineStart = code.lastIndexOf('\n', statement.getStart() - 1) + 1
+    changes.push({ start: lineStart, end: lineStart, text: `${indent(declarations, lineIndent)}\n` })
+  }
+  return changes
+}
+
+function applyEdit(code: string, language: SourceLanguage, edit: SceneCodeEdit) {
+  const sourceFile = parse(code, language)
+  switch (edit.kind) {
+    case 'transform':
+      return applyChanges(code, applyTransform(code, sourceFile, edit.target, edit.property, edit.previous, edit.next))
+    case 'assign':
+      return applyChanges(code, applyAssign(code, sourceFile, language, edit))
+    case 'call':
+      return applyChanges(code, applyCall(code, sourceFile, edit))
+    case 'rename':
+      return applyChanges(code, applyRename(code, sourceFile, edit))
+    case 'parent':
+      return applyChanges(code, applyParent(code, sourceFile, language, edit))
+    case 'dispose':
+      return applyChanges(code, applyDispose(code, sourceFile, edit))
+    case 'insert':
+      return applyChanges(code, insertStatements(code, sourceFile, renameTakenVariables(sourceFile, edit.code, language)))
+  }
+}
+
+export function applyCodeEdits(code: string, language: SourceLanguage, edits: SceneCodeEdit[]) {
+  return edits.reduce((current, edit) => applyEdit(current, language, edit), code)
+}
@@ -0,0 +1,78 @@
+import type { SceneCodeEdit } from '@/lib/runtime/protocol'
+import type { CodeEditRequest, CompileOptions, CompileRequest, CompileResponse, CompileResult, SourceLanguage } from './types'
+
+interface PendingCompile {
+  resolve: (result: CompileResult | string) => void
+  reject: (error: Error) => void
+}
+
+// Requests without their id, which the client assigns
+type UnsentRequest = Omit<CompileRequest, 'id'> | Omit<CodeEditRequest, 'id'>
+
+// Main-thread handle to the compiler worker. The worker is started lazily so
+// TypeScript is only downloaded once something is compiled.
+export class CompilerClient {
+  private worker: Worker | null = null
+  private pending: Map<number, PendingCompile> = new Map()
+  private nextId = 1
+
+  constructor() {
+    this.handleMessage = this.handleMessage.bind(this)
+  }
+
+  compile(code: string, options: CompileOptions): Promise<CompileResult> {
+    return this.send({ kind: 'compile', code, ...options }) as Promise<CompileResult>
+  }
+
+  // Resolves to the code with the scene manager's edits applied
+  applyEdits(code: string, language: SourceLanguage, edits: SceneCodeEdit[]): Promise<string> {
+    return this.send({ kind: 'edit', code, language, edits }) as Promise<string>
+  }
+
+  private send(request: UnsentRequest): Promise<CompileResult | string> {
+    const worker = this.getWorker()
+    const id = this.nextId++
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({ ...request, id })
+    })
+  }
+
+  dispose() {
+    this.worker?.terminate()
+    this.worker = null
+    this.pending.forEach(request => request.reject(new Error('Compiler disposed')))
+    this.pending.clear()
+  }
+
+  private getWorker() {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./compiler.worker.ts', import.meta.url), { type: 'module' })
+      this.worker.addEventListener('message', this.handleMessage)
+    }
+    return this.worker
+  }
+
+  private handleMessage(event: MessageEvent<CompileResponse>) {
+    const { id, result, error } = event.data
+    const request = this.pending.get(id)
+    if (!request) return
+
+    this.pending.delete(id)
+    if (result !== undefined) {
+      request.resolve(result)
+    } else {
+      request.reject(new Error(error || 'Compilation failed'))
+    }
+  }
+}
+
+let sharedCompiler: CompilerClient | null = null
+
+export function getCompiler() {
+  if (!sharedCompiler) {
+    sharedCompiler = new CompilerClient()
+  }
+  return sharedCompiler
+}
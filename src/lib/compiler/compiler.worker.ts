@@ -0,0 +1,187 @@
+import * as ts from 'typescript'
+import {
+  CompileDiagnostic,
+  CompileRequest,
+  CompileResponse,
+  CompileResult,
+  CompilerRequest,
+  PLAYGROUND_GLOBALS_DTS
+} from './types'
+import { BABYLON_DTS_FILE, loadBabylonDeclarations } from './babylon-types'
+import { createLoopGuardTransformer } from './loop-guard'
+import { applyCodeEdits } from './code-edits'
+
+// Transpiles, type-checks and patches playground code off the main thread
+
+const SCENE_FILES = {
+  javascript: '/scene.js',
+  typescript: '/scene.ts'
+}
+const GLOBALS_FILE = '/playground-globals.d.ts'
+const BABYLON_FILE = `/${BABYLON_DTS_FILE}`
+const ROOT_LIBS = ['lib.es2020.d.ts', 'lib.dom.d.ts']
+
+const TRANSPILE_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  allowJs: true,
+  sourceMap: true
+}
+
+const TYPE_CHECK_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  lib: ROOT_LIBS,
+  allowJs: true,
+  noEmit: true,
+  strict: false,
+  skipLibCheck: true,
+  types: []
+}
+
+// Top-level await and for-await in a script file. User code runs inside an
+// async function body, so both are allowed there.
+const IGNORED_TYPE_DIAGNOSTICS = new Set([1375, 1431])
+
+const libLoaders = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default'
+})
+const libSources: Map<string, ts.SourceFile> = new Map()
+let babylonSource: ts.SourceFile | null = null
+let previousProgram: ts.Program | undefined
+
+function libKey(fileName: string) {
+  return fileName.slice(fileName.lastIndexOf('/') + 1)
+}
+
+// Loads a lib file and everything it pulls in through /// <reference lib="..." />
+async function loadLib(fileName: string): Promise<void> {
+  if (libSources.has(fileName)) return
+
+  const loader = libLoaders[`/node_modules/typescript/lib/${fileName}`]
+  if (!loader) return
+
+  const text = await loader()
+  const sourceFile = ts.createSourceFile(`/${fileName}`, text, ts.ScriptTarget.ES2020)
+  libSources.set(fileName, sourceFile)
+
+  await Promise.all(
+    sourceFile.libReferenceDirectives.map(ref => loadLib(`lib.${ref.fileName.toLowerCase()}.d.ts`))
+  )
+}
+
+async function loadBabylon(): Promise<void> {
+  if (babylonSource) return
+  const text = await loadBabylonDeclarations()
+  babylonSource = ts.createSourceFile(BABYLON_FILE, text, ts.ScriptTarget.ES2020)
+}
+
+function createCompilerHost(files: Map<string, string>): ts.CompilerHost {
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName === BABYLON_FILE && babylonSource) return babylonSource
+      const lib = libSources.get(libKey(fileName))
+      if (lib) return lib
+      const text = files.get(fileName)
+      return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true)
+    },
+    getDefaultLibFileName: () => '/lib.d.ts',
+    getDefaultLibLocation: () => '/',
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName =>
+      files.has(fileName) || fileName === BABYLON_FILE || libSources.has(libKey(fileName)),
+    readFile: fileName =>
+      files.get(fileName) ?? (fileName === BABYLON_FILE ? babylonSource?.text : libSources.get(libKey(fileName))?.text)
+  }
+}
+
+function toCompileDiagnostic(diagnostic: ts.Diagnostic, kind: CompileDiagnostic['kind']): CompileDiagnostic {
+  const file = diagnostic.file
+  const start = diagnostic.start ?? 0
+  const end = start + (diagnostic.length ?? 0)
+  const startPosition = file ? file.getLineAndCharacterOfPosition(start) : { line: 0, character: 0 }
+  const endPosition = file ? file.getLineAndCharacterOfPosition(end) : startPosition
+
+  return {
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error
+        ? 'error'
+        : diagnostic.category === ts.DiagnosticCategory.Warning
+          ? 'warning'
+          : 'info',
+    kind,
+    code: diagnostic.code,
+    startLineNumber: startPosition.line + 1,
+    startColumn: startPosition.character + 1,
+    endLineNumber: endPosition.line + 1,
+    endColumn: endPosition.character + 1
+  }
+}
+
+async function typeCheck(code: string, fileName: string): Promise<CompileDiagnostic[]> {
+  await Promise.all([...ROOT_LIBS.map(loadLib), loadBabylon()])
+
+  const files = new Map([
+    [fileName, code],
+    [GLOBALS_FILE, PLAYGROUND_GLOBALS_DTS]
+  ])
+  // Reusing the previous program spares re-binding the large declaration files
+  const program = ts.createProgram(
+    [fileName, GLOBALS_FILE, BABYLON_FILE],
+    TYPE_CHECK_OPTIONS,
+    createCompilerHost(files),
+    previousProgram
+  )
+  previousProgram = program
+  const sourceFile = program.getSourceFile(fileName)
+
+  return program
+    .getSemanticDiagnostics(sourceFile)
+    .filter(d => !IGNORED_TYPE_DIAGNOSTICS.has(d.code))
+    .map(d => toCompileDiagnostic(d, 'type'))
+}
+
+async function compile(request: CompileRequest): Promise<CompileResult> {
+  const fileName = SCENE_FILES[request.language]
+  const output = ts.transpileModule(request.code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: TRANSPILE_OPTIONS,
+    transformers: { before: [createLoopGuardTransformer()] }
+  })
+
+  const diagnostics = (output.diagnostics ?? []).map(d => toCompileDiagnostic(d, 'syntax'))
+
+  // Type errors are only meaningful once the code parses
+  if (request.typeCheck && request.language === 'typescript' && diagnostics.length === 0) {
+    diagnostics.push(...(await typeCheck(request.code, fileName)))
+  }
+
+  return {
+    code: output.outputText.replace(/\n\/\/# sourceMappingURL=.*$/, ''),
+    sourceMap: output.sourceMapText ?? null,
+    diagnostics
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<CompilerRequest>) => {
+  const request = event.data
+  let response: CompileResponse
+
+  try {
+    const result = request.kind === 'edit'
+      ? applyCodeEdits(request.code, request.language, request.edits)
+      : await compile(request)
+    response = { id: request.id, result }
+  } catch (err) {
+    response = { id: request.id, error: err instanceof Error ? err.message : 'Compilation failed' }
+  }
+
+  self.postMessage(response)
+})
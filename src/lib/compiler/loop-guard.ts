@@ -0,0 +1,60 @@
+import * as ts from 'typescript'
+import { LOOP_GUARD_GLOBAL } from './types'
+
+// Prepends a guard call to every loop body so the sandbox can abort loops that never end
+
+function guardBody(factory: ts.NodeFactory, body: ts.Statement): ts.Statement {
+  const guard = factory.createExpressionStatement(
+    factory.createCallExpression(factory.createIdentifier(LOOP_GUARD_GLOBAL), undefined, [])
+  )
+  if (ts.isBlock(body)) {
+    return factory.updateBlock(body, [guard, ...body.statements])
+  }
+  return factory.createBlock([guard, body], true)
+}
+
+export function createLoopGuardTransformer(): ts.TransformerFactory<ts.SourceFile> {
+  return context => {
+    const { factory } = context
+
+    const visit = (node: ts.Node): ts.Node => {
+      const visited = ts.visitEachChild(node, visit, context)
+
+      if (ts.isForStatement(visited)) {
+        return factory.updateForStatement(
+          visited,
+          visited.initializer,
+          visited.condition,
+          visited.incrementor,
+          guardBody(factory, visited.statement)
+        )
+      }
+      if (ts.isForInStatement(visited)) {
+        return factory.updateForInStatement(
+          visited,
+          visited.initializer,
+          visited.expression,
+          guardBody(factory, visited.statement)
+        )
+      }
+      if (ts.isForOfStatement(visited)) {
+        return factory.updateForOfStatement(
+          visited,
+          visited.awaitModifier,
+          visited.initializer,
+          visited.expression,
+          guardBody(factory, visited.statement)
+        )
+      }
+      if (ts.isWhileStatement(visited)) {
+        return factory.updateWhileStatement(visited, visited.expression, guardBody(factory, visited.statement))
+      }
+      if (ts.isDoStatement(visited)) {
+        return factory.updateDoStatement(visited, guardBody(factory, visited.statement), visited.expression)
+      }
+      return visited
+    }
+
+    return sourceFile => ts.visitNode(sourceFile, visit) as ts.SourceFile
+  }
+}
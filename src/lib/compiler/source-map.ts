@@ -0,0 +1,89 @@
+// Minimal source map v3 reader, enough to map generated positions back to the
+// single source file the playground compiles.
+
+export interface SourcePosition {
+  // 1-based line and column
+  line: number
+  column: number
+}
+
+// [generatedColumn, sourceLine, sourceColumn], all 0-based
+type Segment = [number, number, number]
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char)
+    if (digit < 0) break
+
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = []
+  let sourceLine = 0
+  let sourceColumn = 0
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = []
+    let generatedColumn = 0
+
+    for (const raw of line.split(',')) {
+      if (!raw) continue
+      const fields = decodeVlq(raw)
+      generatedColumn += fields[0]
+      // Segments with a single field carry no source position
+      if (fields.length >= 4) {
+        sourceLine += fields[2]
+        sourceColumn += fields[3]
+        segments.push([generatedColumn, sourceLine, sourceColumn])
+      }
+    }
+
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+export class SourceMap {
+  private lines: Segment[][]
+
+  constructor(sourceMapText: string) {
+    const parsed = JSON.parse(sourceMapText) as { mappings?: string }
+    this.lines = decodeMappings(parsed.mappings ?? '')
+  }
+
+  originalPositionFor(position: SourcePosition): SourcePosition | null {
+    const segments = this.lines[position.line - 1]
+    if (!segments || segments.length === 0) return null
+
+    // Closest segment starting at or before the column, else the first one on the line
+    const column = position.column - 1
+    let match = segments[0]
+    for (const segment of segments) {
+      if (segment[0] > column) break
+      match = segment
+    }
+
+    return {
+      line: match[1] + 1,
+      column: match[2] + 1 + Math.max(0, column - match[0])
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { SceneCodeEdit } from '@/lib/runtime/protocol'
+
+export type SourceLanguage = 'javascript' | 'typescript'
+
+// Globals the runtime hands to user code, shared by Monaco and the type-checker.
+// BABYLON itself is declared by the Babylon.js declarations loaded next to these.
+export const PLAYGROUND_GLOBALS_DTS = `
+  declare var engine: BABYLON.Engine;
+  declare var canvas: HTMLCanvasElement;
+  declare var scene: BABYLON.Scene;
+
+  // The sandbox adds the procedural textures library to BABYLON; the core declarations don't cover it
+  declare namespace BABYLON {
+    class MarbleProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      numberOfTilesHeight: number;
+      numberOfTilesWidth: number;
+      amplitude: number;
+      jointColor: Color3;
+    }
+    class WoodProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      ampScale: number;
+      woodColor: Color3;
+    }
+    class GrassProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      grassColors: Color3[];
+      groundColor: Color3;
+    }
+    class BrickProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      numberOfBricksHeight: number;
+      numberOfBricksWidth: number;
+      jointColor: Color3;
+      brickColor: Color3;
+    }
+    class CloudProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      skyColor: Color4;
+      cloudColor: Color4;
+      amplitude: number;
+      numOctaves: number;
+    }
+    class FireProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      autoGenerateTime: boolean;
+      fireColors: Color3[];
+      time: number;
+      speed: Vector2;
+      alphaThreshold: number;
+    }
+    class PerlinNoiseProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      time: number;
+      timeScale: number;
+      translationSpeed: number;
+    }
+    class RoadProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      roadColor: Color3;
+    }
+    class StarfieldProceduralTexture extends ProceduralTexture {
+      constructor(name: string, size: number, scene?: Scene, fallbackTexture?: Texture, generateMipMaps?: boolean);
+      time: number;
+      alpha: number;
+      beta: number;
+      zoom: number;
+    }
+  }
+`
+
+// Called at the top of every loop body by the instrumented code; the sandbox
+// defines it and throws once a loop has run past the time budget.
+export const LOOP_GUARD_GLOBAL = '__playgroundLoopGuard'
+
+export interface CompileDiagnostic {
+  message: string
+  severity: 'error' | 'warning' | 'info'
+  // 'syntax' errors make the output unusable, 'type' errors only matter when type-checking
+  kind: 'syntax' | 'type'
+  code: number
+  startLineNumber: number
+  startColumn: number
+  endLineNumber: number
+  endColumn: number
+}
+
+export interface CompileOptions {
+  language: SourceLanguage
+  typeCheck: boolean
+}
+
+export interface CompileResult {
+  code: string
+  sourceMap: string | null
+  diagnostics: CompileDiagnostic[]
+}
+
+export interface CompileRequest extends CompileOptions {
+  id: number
+  kind: 'compile'
+  code: string
+}
+
+// Patches the code the way the scene manager asked; the result is the new code
+export interface CodeEditRequest {
+  id: number
+  kind: 'edit'
+  code: string
+  language: SourceLanguage
+  edits: SceneCodeEdit[]
+}
+
+export type CompilerRequest = CompileRequest | CodeEditRequest
+
+export interface CompileResponse {
+  id: number
+  result?: CompileResult | string
+  error?: string
+}
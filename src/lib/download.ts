@@ -0,0 +1,22 @@
+// Saves a blob or a data URL through a temporary link
+export function downloadFile(data: Blob | string, fileName: string) {
+  const url = typeof data === 'string' ? data : URL.createObjectURL(data)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  if (typeof data !== 'string') {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// File name for exports of a scene, e.g. "My Scene 2" -> "my-scene-2"
+export function toFileBaseName(sceneName: string | undefined) {
+  const slug = (sceneName ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return slug || 'babylon-scene'
+}
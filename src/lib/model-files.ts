@@ -0,0 +1,17 @@
+// Model files the playground imports, and the sidecar files they may refer to
+
+export const MODEL_EXTENSIONS = ['.glb', '.gltf', '.obj', '.stl', '.babylon']
+
+// Buffers, material libraries and textures that .gltf and .obj files load by relative path
+const SIDECAR_EXTENSIONS = ['.bin', '.mtl', '.png', '.jpg', '.jpeg', '.webp', '.ktx2', '.dds', '.env']
+
+export const MODEL_FILE_ACCEPT = [...MODEL_EXTENSIONS, ...SIDECAR_EXTENSIONS].join(',')
+
+export function getFileExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase()
+}
+
+export function isModelFile(fileName: string) {
+  return MODEL_EXTENSIONS.includes(getFileExtension(fileName))
+}
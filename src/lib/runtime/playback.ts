@@ -0,0 +1,71 @@
+// Render loop controls shared by the host overlay and the sandbox clock
+
+export interface PlaybackState {
+  paused: boolean
+  // Multiplies the time that passes per frame; below 1 is slow motion
+  timeScale: number
+  // Every frame advances by the same fixed step, independent of the real frame rate
+  fixedTimestep: boolean
+}
+
+export const DEFAULT_PLAYBACK: PlaybackState = {
+  paused: false,
+  timeScale: 1,
+  fixedTimestep: false
+}
+
+export const MIN_TIME_SCALE = 0.1
+export const MAX_TIME_SCALE = 4
+
+// Preset speeds the slower/faster shortcuts move between
+const TIME_SCALE_STEPS = [0.1, 0.25, 0.5, 1, 2, 4]
+
+export type PlaybackCommand = 'toggle-pause' | 'step' | 'toggle-fixed-timestep' | 'slower' | 'faster'
+
+// Alt combinations stay clear of the editor's and the camera's own keys.
+// Matched on the physical key because Alt changes the typed character on macOS.
+const SHORTCUTS: Record<string, PlaybackCommand> = {
+  KeyP: 'toggle-pause',
+  Period: 'step',
+  KeyL: 'toggle-fixed-timestep',
+  BracketLeft: 'slower',
+  BracketRight: 'faster'
+}
+
+export const PLAYBACK_SHORTCUT_LABELS: Record<PlaybackCommand, string> = {
+  'toggle-pause': 'Alt+P',
+  step: 'Alt+.',
+  'toggle-fixed-timestep': 'Alt+L',
+  slower: 'Alt+[',
+  faster: 'Alt+]'
+}
+
+type ShortcutEvent = Pick<KeyboardEvent, 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'>
+
+export function getPlaybackCommand(event: ShortcutEvent): PlaybackCommand | null {
+  if (!event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return null
+  return SHORTCUTS[event.code] ?? null
+}
+
+export function clampTimeScale(timeScale: number) {
+  return Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, timeScale))
+}
+
+// Stepping is not a state change, so 'step' leaves the state as it is
+export function applyPlaybackCommand(state: PlaybackState, command: PlaybackCommand): PlaybackState {
+  switch (command) {
+    case 'toggle-pause':
+      return { ...state, paused: !state.paused }
+    case 'toggle-fixed-timestep':
+      return { ...state, fixedTimestep: !state.fixedTimestep }
+    case 'slower':
+      return {
+        ...state,
+        timeScale: [...TIME_SCALE_STEPS].reverse().find(step => step < state.timeScale) ?? MIN_TIME_SCALE
+      }
+    case 'faster':
+      return { ...state, timeScale: TIME_SCALE_STEPS.find(step => step > state.timeScale) ?? MAX_TIME_SCALE }
+    default:
+      return state
+  }
+}
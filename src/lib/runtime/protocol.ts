@@ -0,0 +1,356 @@
+import type { PlaybackCommand, PlaybackState } from './playback'
+import type { HistoryCommand } from '@/lib/code-history'
+
+// Message protocol between the playground host and the sandboxed scene runtime.
+// The sandbox iframe owns the canvas, engine and scene; the host only ever
+// talks to it through these postMessage payloads.
+
+export const RUNTIME_CHANNEL = 'babylon-playground-runtime'
+
+export type AssetType = 'mesh' | 'light' | 'camera' | 'material'
+
+export interface AssetPayload {
+  name: string
+  type: AssetType
+  code: string
+}
+
+export type ProceduralTextureKind = 'noise' | 'marble' | 'wood' | 'grass' | 'checkerboard'
+
+// A generated texture, or an image stored with the scene
+export type TextureSource =
+  | { kind: 'procedural'; procedural: ProceduralTextureKind }
+  | { kind: 'image'; fileName: string }
+
+// CSS pixels from the top left corner of the canvas
+export interface CanvasPoint {
+  x: number
+  y: number
+}
+
+// Where a dropped mesh goes: onto the surface under point, or the ground plane
+export interface AssetPlacement {
+  point: CanvasPoint
+  // Turn the mesh's up axis to the surface normal
+  alignToSurface: boolean
+}
+
+export type Vector3Tuple = [number, number, number]
+
+export type TransformProperty = 'position' | 'rotation' | 'scaling'
+
+export type SceneObjectKind = 'mesh' | 'transform-node' | 'light' | 'camera' | 'material'
+
+// An object in the scene code, found by the name it is created with
+export interface SceneObjectRef {
+  kind: SceneObjectKind
+  name: string
+}
+
+// Changes the scene manager asks the host to make in the user's code. The host patches
+// the statements concerned and leaves the rest of the code as written.
+export type SceneCodeEdit =
+  // Only the components that differ between previous and next are rewritten
+  | { kind: 'transform'; target: SceneObjectRef; property: TransformProperty; previous: Vector3Tuple; next: Vector3Tuple }
+  // target.property = value, after whichever declarations the value needs that the code lacks
+  | { kind: 'assign'; target: SceneObjectRef; property: string; value: string; declarations?: string }
+  // target.method(args), replacing the arguments of the last such call
+  | { kind: 'call'; target: SceneObjectRef; method: string; args: string }
+  // The name passed where the target is created, and where it is looked up by name
+  | { kind: 'rename'; target: SceneObjectRef; name: string }
+  | { kind: 'parent'; target: SceneObjectRef; parent: SceneObjectRef | null }
+  // target.dispose() at the end of createScene, so the statements using the target still see it
+  | { kind: 'dispose'; target: SceneObjectRef }
+  // Statements added at the end of createScene
+  | { kind: 'insert'; code: string }
+
+// One row of the scene outliner. Materials have no parent and are always enabled.
+export interface OutlineNode {
+  // The object's uniqueId, which stays put while it is renamed
+  id: number
+  kind: SceneObjectKind
+  name: string
+  parentId: number | null
+  enabled: boolean
+  // Only meshes can be picked
+  pickable: boolean | null
+}
+
+// Editable values of the selected object. Colors are hex strings, angles radians, and
+// sections that don't apply to the object are null.
+export interface ObjectProperties {
+  object: SceneObjectRef
+  // Meshes and transform nodes
+  transform: Record<TransformProperty, Vector3Tuple> | null
+  light: { intensity: number; diffuse: string } | null
+  // fov is null for orthographic cameras
+  camera: { fov: number | null; minZ: number; maxZ: number } | null
+  // The selected mesh's material
+  material: { name: string; colors: { property: MaterialColorProperty; value: string }[] } | null
+}
+
+export type MaterialColorProperty = 'diffuseColor' | 'specularColor' | 'emissiveColor' | 'ambientColor' | 'albedoColor'
+
+export type ObjectPropertyChange =
+  | { section: 'transform'; property: TransformProperty; value: Vector3Tuple }
+  | { section: 'light'; property: 'intensity'; value: number }
+  | { section: 'light'; property: 'diffuse'; value: string }
+  | { section: 'camera'; property: 'fov' | 'minZ' | 'maxZ'; value: number }
+  | { section: 'material'; property: MaterialColorProperty; value: string }
+
+export type SceneNodeChange =
+  | { kind: 'enabled'; enabled: boolean }
+  | { kind: 'pickable'; pickable: boolean }
+  | { kind: 'rename'; name: string }
+  // Keeps the local transform, as assigning parent in code does
+  | { kind: 'parent'; parentId: number | null }
+  // Disposes the object; the code disposes it at the end of createScene
+  | { kind: 'delete' }
+
+// 1-based position inside the code passed to 'run'
+export interface CodeLocation {
+  line: number
+  column: number
+}
+
+// Where user code created an object, as a position in the code that was run
+export interface CreationSite {
+  object: SceneObjectRef
+  location: CodeLocation
+}
+
+// One parsed line of an error stack. Only frames inside user code have a location.
+export interface StackFrame {
+  text: string
+  functionName: string | null
+  location?: CodeLocation
+}
+
+// 'user-code' errors are recovered with a fallback scene, 'render-loop' errors pause
+// rendering until the next run, and 'runtime' errors come from the sandbox itself
+export type ErrorSource = 'user-code' | 'render-loop' | 'runtime'
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error'
+
+// Cloneable preview of a value logged by user code. Objects stay in the sandbox
+// and are expanded on demand through the 'inspect-object' request.
+export type InspectedValue =
+  | { kind: 'primitive'; type: 'string' | 'number' | 'boolean' | 'undefined' | 'null' | 'bigint' | 'symbol'; text: string }
+  | { kind: 'function'; text: string }
+  | { kind: 'error'; text: string; stack?: string }
+  | { kind: 'object'; text: string; objectId: number }
+
+export interface InspectedProperty {
+  key: string
+  value: InspectedValue
+}
+
+export interface ConsoleEntry {
+  id: number
+  level: ConsoleLevel
+  args: InspectedValue[]
+  timestamp: number
+  runId: number | null
+  location?: CodeLocation
+}
+
+export type ResourceKind =
+  | 'render-loop'
+  | 'timeout'
+  | 'interval'
+  | 'animation-frame'
+  | 'event-listener'
+  | 'engine-observer'
+  | 'texture'
+  | 'post-process'
+  | 'global'
+
+// What was left behind by a run and cleaned up before the next one
+export interface ResourceReport {
+  runId: number
+  timestamp: number
+  reclaimed: Partial<Record<ResourceKind, number>>
+  // Resources the runtime found but could not release
+  unreclaimed: { kind: ResourceKind; description: string }[]
+}
+
+export type EngineBackend = 'webgl2' | 'webgl1' | 'webgpu' | 'null'
+
+// The engine the sandbox ended up with, which can differ from the one requested
+export interface EngineInfo {
+  requested: EngineBackend
+  backend: EngineBackend
+  version: string
+  fallbackReason?: string
+}
+
+// One reading for the stats overlay, taken about twice a second. Times are in
+// milliseconds and averaged over the last second.
+export interface StatsSample {
+  timestamp: number
+  // Run that produced the active scene, if any
+  runId: number | null
+  fps: number
+  frameTimeMs: number
+  renderTimeMs: number
+  // null where the GPU can't time its own work
+  gpuFrameTimeMs: number | null
+  drawCalls: number
+  activeMeshes: number
+  vertices: number
+  sceneTextures: number
+  // Every texture the engine holds, including ones no scene uses anymore
+  engineTextures: number
+}
+
+export interface SceneSummary {
+  meshes: number
+  lights: number
+  cameras: number
+}
+
+// Width and height default to the canvas size
+export interface ScreenshotOptions {
+  width?: number
+  height?: number
+  // Clears the background to transparent instead of the scene's clear color
+  transparent?: boolean
+}
+
+// Compiled scene code to render in isolation for a visual regression check
+export interface SnapshotOptions {
+  code: string
+  width: number
+  height: number
+  // Fixed steps rendered before the capture
+  frames: number
+  // Seed for Math.random while the code runs
+  seed: number
+}
+
+export type SceneExportFormat = 'glb' | 'gltf' | 'babylon'
+
+export interface SceneExportOptions {
+  format: SceneExportFormat
+  // File name without extension; the .gltf refers to its .bin by this name
+  fileName: string
+  excludeGround: boolean
+  // Gizmo and other helper meshes drawn through utility layers
+  excludeUtilityMeshes: boolean
+  // Only the mesh attached to the gizmos, with its children
+  selectedOnly: boolean
+}
+
+// glTF exports come with a separate .bin; GLB and .babylon are a single file
+export interface ExportedFile {
+  name: string
+  data: Blob
+}
+
+// Request/response pairs, answered by the sandbox with a 'response' message
+export interface SandboxRequests {
+  'toggle-inspector': { params: void; result: { visible: boolean } }
+  'inspect-object': { params: { objectId: number }; result: { properties: InspectedProperty[]; truncated: boolean } }
+  'capture-screenshot': { params: ScreenshotOptions; result: { dataUrl: string; width: number; height: number } }
+  // Answered once the clip is finished
+  'record-video': { params: { durationSeconds: number }; result: { video: Blob } }
+  'stop-video': { params: void; result: void }
+  'render-snapshot': { params: SnapshotOptions; result: { dataUrl: string; width: number; height: number } }
+  'export-scene': { params: SceneExportOptions; result: { files: ExportedFile[] } }
+  // Loads a file passed with 'set-assets' into the active scene; name is the root it was put under
+  'import-model': { params: { fileName: string }; result: { name: string; meshes: number } }
+  // Onto the mesh under point, or the selected mesh without one
+  'apply-texture': { params: { texture: TextureSource; point?: CanvasPoint }; result: { meshName: string } }
+  // Runs a material asset for the mesh under point, or the selected mesh; assets applied
+  // before share the material they created
+  'apply-material': { params: { asset: AssetPayload; point?: CanvasPoint }; result: { meshName: string; materialName: string } }
+  // Changes an outliner row's object and reports the change as code edits
+  'edit-scene-node': { params: { id: number; change: SceneNodeChange }; result: void }
+  // Changes the selected object right away; only a commit is written into the code
+  'set-object-property': { params: { change: ObjectPropertyChange; commit: boolean }; result: void }
+}
+
+export type SandboxRequestMethod = keyof SandboxRequests
+
+// Host -> sandbox
+export type HostMessage =
+  // Asks an already booted sandbox to announce 'ready' again
+  | { type: 'hello' }
+  | { type: 'configure'; executionBudgetMs: number }
+  // Heartbeat; a sandbox that stops answering is considered hung
+  | { type: 'ping' }
+  | { type: 'run'; runId: number; code: string }
+  | { type: 'stop' }
+  | { type: 'playback'; playback: PlaybackState }
+  | { type: 'set-stats'; enabled: boolean }
+  // Renders one fixed step while paused
+  | { type: 'step-frame' }
+  | { type: 'dispose' }
+  | { type: 'add-asset'; asset: AssetPayload; placement?: AssetPlacement }
+  // Attaches the gizmos to a mesh, as picking it in the viewport would; other objects are
+  // selected without gizmos
+  | { type: 'select-object'; object: SceneObjectRef }
+  // Every file stored with the current scene, which code loads through asset:// URLs
+  | { type: 'set-assets'; files: File[] }
+  | {
+      type: 'request'
+      id: number
+      method: SandboxRequestMethod
+      params: SandboxRequests[SandboxRequestMethod]['params']
+    }
+
+// Sandbox -> host
+export type SandboxMessage =
+  | { type: 'ready'; engine: EngineInfo }
+  | { type: 'scene-ready'; runId: number; summary: SceneSummary; creationSites: CreationSite[] }
+  | {
+      type: 'error'
+      runId: number | null
+      source: ErrorSource
+      message: string
+      stack?: string
+      location?: CodeLocation
+      frames?: StackFrame[]
+      // Set when the watchdog stopped code that ran past its time budget
+      aborted?: boolean
+    }
+  | { type: 'stopped' }
+  | { type: 'pong' }
+  | { type: 'code-edits'; edits: SceneCodeEdit[] }
+  // The object the gizmos are attached to, with where the code created it
+  | { type: 'selection-changed'; runId: number; object: SceneObjectRef | null; location?: CodeLocation }
+  // The selected object's values, sent again when a drag or an edit changes them
+  | { type: 'selection-properties'; properties: ObjectProperties | null }
+  // The active scene's objects, sent again whenever they change
+  | { type: 'scene-outline'; nodes: OutlineNode[] }
+  | { type: 'console'; entry: ConsoleEntry }
+  | { type: 'resource-report'; report: ResourceReport }
+  // Frames the active scene has rendered, reported while paused
+  | { type: 'playback-frame'; frame: number }
+  | { type: 'stats'; sample: StatsSample }
+  // A playback shortcut pressed while the canvas had focus
+  | { type: 'playback-command'; command: PlaybackCommand }
+  // An undo or redo shortcut pressed while the canvas had focus
+  | { type: 'history-command'; command: HistoryCommand }
+  // Files dropped on the canvas, for the host to keep and import
+  | { type: 'files-dropped'; files: File[] }
+  | { type: 'response'; id: number; result?: unknown; error?: string }
+
+export type SandboxMessageType = SandboxMessage['type']
+
+export type SandboxMessageOf<T extends SandboxMessageType> = Extract<SandboxMessage, { type: T }>
+
+type Envelope<T> = T & { channel: typeof RUNTIME_CHANNEL }
+
+export function wrapMessage<T extends HostMessage | SandboxMessage>(message: T): Envelope<T> {
+  return { ...message, channel: RUNTIME_CHANNEL }
+}
+
+export function isRuntimeMessage<T extends HostMessage | SandboxMessage>(data: unknown): data is Envelope<T> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { channel?: unknown }).channel === RUNTIME_CHANNEL &&
+    typeof (data as { type?: unknown }).type === 'string'
+  )
+}
@@ -0,0 +1,314 @@
+import {
+  AssetPayload,
+  AssetPlacement,
+  CodeLocation,
+  EngineBackend,
+  HostMessage,
+  SandboxMessage,
+  SandboxMessageOf,
+  SandboxMessageType,
+  SandboxRequestMethod,
+  SandboxRequests,
+  SceneObjectRef,
+  isRuntimeMessage,
+  wrapMessage
+} from './protocol'
+import { DEFAULT_PLAYBACK, PlaybackState } from './playback'
+import type { SourceMap } from '@/lib/compiler/source-map'
+
+type Listener<T extends SandboxMessageType> = (message: SandboxMessageOf<T>) => void
+type AnyListener = (message: SandboxMessage) => void
+type UnresponsiveListener = () => void
+
+// Source maps of the most recent runs, to map late console output and errors
+const SOURCE_MAP_HISTORY = 10
+
+const HEARTBEAT_INTERVAL_MS = 1000
+// On top of the execution budget, before a silent sandbox counts as hung
+const UNRESPONSIVE_GRACE_MS = 3000
+const DEFAULT_EXECUTION_BUDGET_MS = 5000
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+}
+
+// Host-side adapter for the sandbox iframe. Messages sent before the sandbox
+// reports 'ready' are queued and flushed once it does. A heartbeat notices a
+// sandbox that stopped answering, so the host can replace the iframe.
+export class SandboxRuntime {
+  private frame: HTMLIFrameElement | null = null
+  private ready = false
+  private queue: HostMessage[] = []
+  private listeners: Map<SandboxMessageType, Set<AnyListener>> = new Map()
+  private pendingRequests: Map<number, PendingRequest> = new Map()
+  private sourceMaps: Map<number, SourceMap | null> = new Map()
+  private unresponsiveListeners: Set<UnresponsiveListener> = new Set()
+  private heartbeat: ReturnType<typeof setInterval> | null = null
+  // When the oldest unanswered ping was sent
+  private awaitingPongSince: number | null = null
+  private executionBudgetMs = DEFAULT_EXECUTION_BUDGET_MS
+  private playback: PlaybackState = DEFAULT_PLAYBACK
+  private statsEnabled = false
+  private assets: File[] = []
+  private nextRunId = 1
+  private nextRequestId = 1
+
+  constructor() {
+    this.handleMessage = this.handleMessage.bind(this)
+  }
+
+  // The sandbox creates its engine while booting, so the backend is part of its URL
+  static getSandboxUrl(engine: EngineBackend = 'webgl2') {
+    const host = encodeURIComponent(window.location.origin)
+    return `${import.meta.env.BASE_URL}sandbox.html?host=${host}&engine=${engine}`
+  }
+
+  attach(frame: HTMLIFrameElement) {
+    this.detach()
+    this.frame = frame
+    window.addEventListener('message', this.handleMessage)
+    // A freshly loaded sandbox announces itself; one that is already running answers this
+    this.post({ type: 'hello' })
+  }
+
+  detach() {
+    this.stopHeartbeat()
+    window.removeEventListener('message', this.handleMessage)
+    this.frame = null
+    this.ready = false
+    this.queue = []
+    this.pendingRequests.forEach(request => request.reject(new Error('Sandbox detached')))
+    this.pendingRequests.clear()
+  }
+
+  isReady() {
+    return this.ready
+  }
+
+  // Locations reported for this run are mapped through sourceMap back to the editor
+  run(code: string, sourceMap: SourceMap | null = null): number {
+    const runId = this.nextRunId++
+    this.sourceMaps.set(runId, sourceMap)
+    if (this.sourceMaps.size > SOURCE_MAP_HISTORY) {
+      this.sourceMaps.delete(this.sourceMaps.keys().next().value)
+    }
+    this.send({ type: 'run', runId, code })
+    return runId
+  }
+
+  stop() {
+    this.send({ type: 'stop' })
+  }
+
+  // Re-sent to every sandbox that boots, so a replaced iframe keeps the budget
+  configure(options: { executionBudgetMs: number }) {
+    this.executionBudgetMs = options.executionBudgetMs
+    if (this.ready) {
+      this.post({ type: 'configure', executionBudgetMs: this.executionBudgetMs })
+      this.post({ type: 'playback', playback: this.playback })
+      this.post({ type: 'set-stats', enabled: this.statsEnabled })
+    }
+  }
+
+  // Also re-sent to every sandbox that boots, so a replaced iframe stays paused
+  setPlayback(playback: PlaybackState) {
+    this.playback = playback
+    if (this.ready) {
+      this.post({ type: 'playback', playback })
+    }
+  }
+
+  setStatsEnabled(enabled: boolean) {
+    this.statsEnabled = enabled
+    if (this.ready) {
+      this.post({ type: 'set-stats', enabled })
+    }
+  }
+
+  stepFrame() {
+    this.send({ type: 'step-frame' })
+  }
+
+  dispose() {
+    this.send({ type: 'dispose' })
+  }
+
+  // Re-sent to every sandbox that boots, so asset:// URLs keep resolving in a new iframe
+  setAssets(files: File[]) {
+    this.assets = files
+    if (this.ready) {
+      this.post({ type: 'set-assets', files })
+    }
+  }
+
+  addAsset(asset: AssetPayload, placement?: AssetPlacement) {
+    this.send({ type: 'add-asset', asset, placement })
+  }
+
+  selectObject(object: SceneObjectRef) {
+    this.send({ type: 'select-object', object })
+  }
+
+  request<M extends SandboxRequestMethod>(
+    method: M,
+    params?: SandboxRequests[M]['params']
+  ): Promise<SandboxRequests[M]['result']> {
+    if (!this.frame) {
+      return Promise.reject(new Error('Sandbox is not attached'))
+    }
+
+    const id = this.nextRequestId++
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject
+      })
+      this.send({ type: 'request', id, method, params })
+    })
+  }
+
+  on<T extends SandboxMessageType>(type: T, listener: Listener<T>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    const listeners = this.listeners.get(type)!
+    const anyListener = listener as unknown as AnyListener
+    listeners.add(anyListener)
+    return () => {
+      listeners.delete(anyListener)
+    }
+  }
+
+  // Called when the sandbox stops answering; the runtime is detached from it by then
+  onUnresponsive(listener: UnresponsiveListener): () => void {
+    this.unresponsiveListeners.add(listener)
+    return () => {
+      this.unresponsiveListeners.delete(listener)
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat()
+    this.heartbeat = setInterval(() => this.checkHeartbeat(), HEARTBEAT_INTERVAL_MS)
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = null
+    }
+    this.awaitingPongSince = null
+  }
+
+  private checkHeartbeat() {
+    // Timers in background tabs are throttled; don't mistake that for a hang
+    if (document.hidden) return
+
+    if (this.awaitingPongSince === null) {
+      this.awaitingPongSince = Date.now()
+      this.post({ type: 'ping' })
+      return
+    }
+
+    if (Date.now() - this.awaitingPongSince > this.executionBudgetMs + UNRESPONSIVE_GRACE_MS) {
+      this.detach()
+      this.unresponsiveListeners.forEach(listener => listener())
+    }
+  }
+
+  private send(message: HostMessage) {
+    if (!this.ready || !this.frame?.contentWindow) {
+      this.queue.push(message)
+      return
+    }
+    this.post(message)
+  }
+
+  private post(message: HostMessage) {
+    // The sandbox has an opaque origin, so '*' is the only usable target origin
+    this.frame?.contentWindow?.postMessage(wrapMessage(message), '*')
+  }
+
+  private flushQueue() {
+    const queued = this.queue
+    this.queue = []
+    queued.forEach(message => this.send(message))
+  }
+
+  private toSourceLocation(runId: number | null, location: CodeLocation | undefined) {
+    if (!location || runId === null) return location
+    const sourceMap = this.sourceMaps.get(runId)
+    return sourceMap?.originalPositionFor(location) ?? location
+  }
+
+  // Rewrites positions in the compiled code to positions in the editor
+  private withSourceLocations(message: SandboxMessage): SandboxMessage {
+    switch (message.type) {
+      case 'error':
+        return {
+          ...message,
+          location: this.toSourceLocation(message.runId, message.location),
+          frames: message.frames?.map(frame => ({
+            ...frame,
+            location: this.toSourceLocation(message.runId, frame.location)
+          }))
+        }
+      case 'console':
+        return {
+          ...message,
+          entry: { ...message.entry, location: this.toSourceLocation(message.entry.runId, message.entry.location) }
+        }
+      case 'scene-ready':
+        return {
+          ...message,
+          creationSites: message.creationSites.map(site => ({
+            ...site,
+            location: this.toSourceLocation(message.runId, site.location) ?? site.location
+          }))
+        }
+      case 'selection-changed':
+        return { ...message, location: this.toSourceLocation(message.runId, message.location) }
+      default:
+        return message
+    }
+  }
+
+  private handleMessage(event: MessageEvent) {
+    if (!this.frame || event.source !== this.frame.contentWindow) return
+    if (!isRuntimeMessage<SandboxMessage>(event.data)) return
+
+    const message = this.withSourceLocations(event.data)
+
+    if (message.type === 'ready') {
+      this.ready = true
+      this.post({ type: 'configure', executionBudgetMs: this.executionBudgetMs })
+      this.post({ type: 'playback', playback: this.playback })
+      this.post({ type: 'set-stats', enabled: this.statsEnabled })
+      // Before queued runs, which may load them
+      if (this.assets.length > 0) {
+        this.post({ type: 'set-assets', files: this.assets })
+      }
+      this.flushQueue()
+      this.startHeartbeat()
+    }
+
+    if (message.type === 'pong') {
+      this.awaitingPongSince = null
+    }
+
+    if (message.type === 'response') {
+      const pending = this.pendingRequests.get(message.id)
+      if (pending) {
+        this.pendingRequests.delete(message.id)
+        if (message.error) {
+          pending.reject(new Error(message.error))
+        } else {
+          pending.resolve(message.result)
+        }
+      }
+    }
+
+    this.listeners.get(message.type)?.forEach(listener => listener(message))
+  }
+}
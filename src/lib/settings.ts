@@ -0,0 +1,44 @@
+// User preferences for the playground, kept in localStorage like the scenes
+
+// 'live' runs the code shortly after every edit, 'manual' only on Run or Ctrl/Cmd+Enter
+export type RunMode = 'live' | 'manual'
+
+export interface PlaygroundSettings {
+  runMode: RunMode
+  // Pause after the last keystroke before a live run starts
+  liveRunDelayMs: number
+  // Refuse to run TypeScript while the type-checker reports errors
+  blockRunOnTypeErrors: boolean
+  // Empty the console panel whenever new code starts running
+  clearConsoleOnRun: boolean
+  // How long createScene, or any single loop, may run before it is aborted
+  executionBudgetMs: number
+  // Turn meshes dropped on the canvas to the normal of the surface they land on
+  alignDropsToSurface: boolean
+}
+
+export const DEFAULT_SETTINGS: PlaygroundSettings = {
+  runMode: 'live',
+  liveRunDelayMs: 300,
+  blockRunOnTypeErrors: false,
+  clearConsoleOnRun: true,
+  executionBudgetMs: 5000,
+  alignDropsToSurface: false
+}
+
+export class SettingsStorage {
+  private static readonly STORAGE_KEY = 'babylon_playground_settings'
+
+  static load(): PlaygroundSettings {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY)
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS
+    } catch {
+      return DEFAULT_SETTINGS
+    }
+  }
+
+  static save(settings: PlaygroundSettings) {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings))
+  }
+}
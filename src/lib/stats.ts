@@ -0,0 +1,22 @@
+import type { StatsSample } from '@/lib/runtime/protocol'
+
+// CSV export of the stats overlay samples, one row per sample
+
+const COLUMNS: { header: string; value: (sample: StatsSample) => string | number }[] = [
+  { header: 'timestamp', value: sample => new Date(sample.timestamp).toISOString() },
+  { header: 'run', value: sample => sample.runId ?? '' },
+  { header: 'fps', value: sample => sample.fps.toFixed(1) },
+  { header: 'frame_ms', value: sample => sample.frameTimeMs.toFixed(3) },
+  { header: 'render_ms', value: sample => sample.renderTimeMs.toFixed(3) },
+  { header: 'gpu_ms', value: sample => sample.gpuFrameTimeMs === null ? '' : sample.gpuFrameTimeMs.toFixed(3) },
+  { header: 'draw_calls', value: sample => sample.drawCalls },
+  { header: 'active_meshes', value: sample => sample.activeMeshes },
+  { header: 'vertices', value: sample => sample.vertices },
+  { header: 'scene_textures', value: sample => sample.sceneTextures },
+  { header: 'engine_textures', value: sample => sample.engineTextures }
+]
+
+export function toStatsCsv(samples: StatsSample[]) {
+  const rows = samples.map(sample => COLUMNS.map(column => column.value(sample)).join(','))
+  return [COLUMNS.map(column => column.header).join(','), ...rows].join('\n')
+}
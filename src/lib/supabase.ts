@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { EngineBackend } from '@/lib/runtime/protocol'
+import { AssetStore } from '@/lib/asset-store'
 
 // These would typically come from environment variables
 // For demo purposes, we'll create a simple interface
@@ -7,14 +9,44 @@ export interface PlaygroundScene {
   name: string
   code: string
   language: 'javascript' | 'typescript'
+  // Engine the scene was written for; older scenes fall back to WebGL2
+  engine?: EngineBackend
   created_at?: string
   updated_at?: string
 }
 
+// Image a saved scene is compared against in visual regression checks
+export interface SceneReference {
+  dataUrl: string
+  width: number
+  height: number
+  // Fixed steps rendered before the capture
+  frames: number
+  engine: EngineBackend
+  babylonVersion: string
+  capturedAt: string
+}
+
 // Simple localStorage-based storage for demo
 // In a real app, this would use Supabase
+export interface PlaygroundDraft {
+  code: string
+  language: 'javascript' | 'typescript'
+  engine?: EngineBackend
+  // Saved scene the draft is an edit of, whose stored assets it uses
+  sceneId?: string
+}
+
+// Reference images are data URLs, so a few of them can use up the origin's few megabytes
+function isQuotaError(error: unknown) {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22)
+}
+
 export class PlaygroundStorage {
   private static readonly STORAGE_KEY = 'babylon_playground_scenes'
+  private static readonly DRAFT_KEY = 'babylon_playground_draft'
+  // One entry per scene, so the scene list stays small to parse
+  private static readonly REFERENCE_KEY_PREFIX = 'babylon_playground_reference_'
 
   static async saveScene(scene: PlaygroundScene): Promise<PlaygroundScene> {
     const scenes = this.getScenes()
@@ -54,5 +86,53 @@ export class PlaygroundStorage {
   static async deleteScene(id: string): Promise<void> {
     const scenes = this.getScenes().filter(scene => scene.id !== id)
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scenes))
+    localStorage.removeItem(this.REFERENCE_KEY_PREFIX + id)
+    await AssetStore.clear(id)
+  }
+
+  // Throws when the image doesn't fit into the remaining storage quota
+  static saveReference(sceneId: string, reference: SceneReference) {
+    try {
+      localStorage.setItem(this.REFERENCE_KEY_PREFIX + sceneId, JSON.stringify(reference))
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new Error('Browser storage is full. Unpin the reference images of other scenes to make room.')
+      }
+      throw error
+    }
+  }
+
+  static loadReference(sceneId: string): SceneReference | null {
+    try {
+      const stored = localStorage.getItem(this.REFERENCE_KEY_PREFIX + sceneId)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
+  }
+
+  static deleteReference(sceneId: string) {
+    localStorage.removeItem(this.REFERENCE_KEY_PREFIX + sceneId)
+  }
+
+  // Unsaved editor contents, so a reload after a hung scene doesn't lose work.
+  // Returns false when storage is full, which the caller reports.
+  static saveDraft(draft: PlaygroundDraft): boolean {
+    try {
+      localStorage.setItem(this.DRAFT_KEY, JSON.stringify(draft))
+      return true
+    } catch (error) {
+      if (isQuotaError(error)) return false
+      throw error
+    }
+  }
+
+  static loadDraft(): PlaygroundDraft | null {
+    try {
+      const stored = localStorage.getItem(this.DRAFT_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
   }
 }
\ No newline at end of file
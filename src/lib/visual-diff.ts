@@ -0,0 +1,84 @@
+// Pixel comparison of two renders of the same scene
+
+export interface VisualDiffResult {
+  mismatchedPixels: number
+  totalPixels: number
+  mismatchPercentage: number
+  // Differences in red over a faded copy of the reference
+  heatmapDataUrl: string
+}
+
+// Per-channel difference below which pixels count as equal, to absorb antialiasing noise
+export const DEFAULT_PIXEL_TOLERANCE = 8
+
+async function loadImageData(dataUrl: string): Promise<ImageData> {
+  const image = new Image()
+  image.src = dataUrl
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  const context = canvas.getContext('2d')
+  context.drawImage(image, 0, 0)
+  return context.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+function toDataUrl(imageData: ImageData) {
+  const canvas = document.createElement('canvas')
+  canvas.width = imageData.width
+  canvas.height = imageData.height
+  canvas.getContext('2d').putImageData(imageData, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+export async function diffImages(
+  referenceDataUrl: string,
+  actualDataUrl: string,
+  tolerance = DEFAULT_PIXEL_TOLERANCE
+): Promise<VisualDiffResult> {
+  const [reference, actual] = await Promise.all([loadImageData(referenceDataUrl), loadImageData(actualDataUrl)])
+  if (reference.width !== actual.width || reference.height !== actual.height) {
+    throw new Error(
+      `The images differ in size: ${reference.width}×${reference.height} and ${actual.width}×${actual.height}`
+    )
+  }
+
+  const expected = reference.data
+  const received = actual.data
+  const heatmap = new ImageData(reference.width, reference.height)
+  const output = heatmap.data
+  let mismatchedPixels = 0
+
+  for (let i = 0; i < expected.length; i += 4) {
+    const delta = Math.max(
+      Math.abs(expected[i] - received[i]),
+      Math.abs(expected[i + 1] - received[i + 1]),
+      Math.abs(expected[i + 2] - received[i + 2]),
+      Math.abs(expected[i + 3] - received[i + 3])
+    )
+
+    if (delta > tolerance) {
+      mismatchedPixels++
+      // Brighter red for larger differences, never too dark to spot
+      output[i] = 128 + Math.round((delta / 255) * 127)
+      output[i + 1] = 0
+      output[i + 2] = 0
+    } else {
+      const luminance = 0.299 * expected[i] + 0.587 * expected[i + 1] + 0.114 * expected[i + 2]
+      const faded = Math.round(255 - (255 - luminance) * 0.25)
+      output[i] = faded
+      output[i + 1] = faded
+      output[i + 2] = faded
+    }
+    output[i + 3] = 255
+  }
+
+  const totalPixels = reference.width * reference.height
+  return {
+    mismatchedPixels,
+    totalPixels,
+    mismatchPercentage: (mismatchedPixels / totalPixels) * 100,
+    heatmapDataUrl: toDataUrl(heatmap)
+  }
+}
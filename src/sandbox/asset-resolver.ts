@@ -0,0 +1,26 @@
+import * as BABYLON from '@babylonjs/core'
+import { parseAssetUrl } from '@/lib/asset-url'
+
+// Maps asset:// URLs to object URLs of the files the host stored with the scene.
+// Every texture, model and sidecar Babylon loads goes through Tools.PreprocessUrl,
+// so glTF buffers and textures referenced by relative path resolve as well.
+
+// By lowercase name; model formats don't agree on the case of file references
+const objectUrls: Map<string, string> = new Map()
+
+export function setAssets(files: File[]) {
+  objectUrls.forEach(url => URL.revokeObjectURL(url))
+  objectUrls.clear()
+  files.forEach(file => objectUrls.set(file.name.toLowerCase(), URL.createObjectURL(file)))
+}
+
+// Unknown assets are left as they are, so the loader reports the asset:// URL that failed
+export function resolveAssetUrl(url: string) {
+  const name = parseAssetUrl(url)
+  return name === null ? url : objectUrls.get(name.toLowerCase()) ?? url
+}
+
+export function installAssetResolver() {
+  const preprocess = BABYLON.Tools.PreprocessUrl
+  BABYLON.Tools.PreprocessUrl = url => resolveAssetUrl(preprocess(url))
+}
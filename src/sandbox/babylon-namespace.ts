@@ -0,0 +1,14 @@
+import * as BabylonCore from '@babylonjs/core'
+import * as ProceduralTextures from '@babylonjs/procedural-textures'
+import { recordBuilderCalls } from './builder-calls'
+
+// What scene code sees as BABYLON: the core plus the procedural textures library,
+// matching the global the UMD bundles and the official playground provide.
+// MeshBuilder remembers its calls for the scene manager's generated code.
+export const BABYLON_NAMESPACE = {
+  ...BabylonCore,
+  ...ProceduralTextures,
+  MeshBuilder: recordBuilderCalls(BabylonCore.MeshBuilder)
+}
+
+export type BabylonNamespace = typeof BABYLON_NAMESPACE
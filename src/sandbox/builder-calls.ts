@@ -0,0 +1,44 @@
+import * as BABYLON from '@babylonjs/core'
+
+// MeshBuilder calls made by scene and asset code, kept so generated code can repeat
+// them with the same options instead of guessing them from the mesh name
+
+export interface BuilderCall {
+  method: string
+  options: Record<string, unknown>
+}
+
+const builderCalls = new WeakMap<BABYLON.AbstractMesh, BuilderCall>()
+
+type MeshBuilderFunction = (name: string, options?: Record<string, unknown>, ...rest: unknown[]) => unknown
+
+export function recordBuilderCalls(meshBuilder: typeof BABYLON.MeshBuilder): typeof BABYLON.MeshBuilder {
+  const entries = Object.entries(meshBuilder).map(([method, create]) => {
+    if (typeof create !== 'function' || !method.startsWith('Create')) {
+      return [method, create]
+    }
+
+    const recorded: MeshBuilderFunction = (name, options = {}, ...rest) => {
+      const mesh = (create as MeshBuilderFunction)(name, options, ...rest)
+      if (mesh instanceof BABYLON.AbstractMesh) {
+        builderCalls.set(mesh, { method, options: { ...options } })
+      }
+      return mesh
+    }
+    return [method, recorded]
+  })
+  return Object.fromEntries(entries) as typeof BABYLON.MeshBuilder
+}
+
+export function getBuilderCall(mesh: BABYLON.AbstractMesh): BuilderCall | null {
+  return builderCalls.get(mesh) ?? null
+}
+
+// {diameter: 2, segments: 32}, in the style of the asset snippets. Options that are
+// not plain numbers, strings or booleans, such as vectors and callbacks, are left out.
+export function formatBuilderOptions(options: Record<string, unknown>) {
+  const entries = Object.entries(options)
+    .filter(([, value]) => ['number', 'string', 'boolean'].includes(typeof value))
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+  return `{${entries.join(', ')}}`
+}
@@ -0,0 +1,82 @@
+import * as BABYLON from '@babylonjs/core'
+import type { ScreenshotOptions } from '@/lib/runtime/protocol'
+
+// Screenshots and video clips of the active scene, handed to the host as data
+// it can save. The sandbox itself can't trigger downloads.
+
+const VIDEO_MIME_TYPE = 'video/webm'
+const VIDEO_FPS = 30
+// Multisampling for screenshots, which bypass the canvas and its antialiasing
+const SCREENSHOT_SAMPLES = 4
+
+let recorder: BABYLON.VideoRecorder | null = null
+
+function assertRenders(engine: BABYLON.AbstractEngine) {
+  if (engine instanceof BABYLON.NullEngine) {
+    throw new Error('NullEngine draws nothing; switch to a rendering engine to capture the scene')
+  }
+}
+
+// Renders the active camera into a render target, so the size doesn't depend on the canvas
+export async function captureScreenshot(
+  engine: BABYLON.AbstractEngine,
+  scene: BABYLON.Scene,
+  options: ScreenshotOptions
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  assertRenders(engine)
+  const camera = scene.activeCamera
+  if (!camera) {
+    throw new Error('The scene has no active camera to take a screenshot with')
+  }
+
+  const width = Math.round(options.width ?? engine.getRenderWidth())
+  const height = Math.round(options.height ?? engine.getRenderHeight())
+
+  // Skyboxes and other geometry still cover the background; only the clear color goes
+  const clearColor = scene.clearColor
+  if (options.transparent) {
+    scene.clearColor = new BABYLON.Color4(clearColor.r, clearColor.g, clearColor.b, 0)
+  }
+
+  try {
+    const dataUrl = await BABYLON.Tools.CreateScreenshotUsingRenderTargetAsync(
+      engine,
+      camera,
+      { width, height },
+      'image/png',
+      SCREENSHOT_SAMPLES,
+      true,
+      undefined,
+      true
+    )
+    return { dataUrl, width, height }
+  } finally {
+    scene.clearColor = clearColor
+  }
+}
+
+// Resolves with the clip once the duration is up or stopVideo is called
+export async function recordVideo(engine: BABYLON.AbstractEngine, durationSeconds: number): Promise<{ video: Blob }> {
+  assertRenders(engine)
+  if (!BABYLON.VideoRecorder.IsSupported(engine)) {
+    throw new Error('This browser cannot record the canvas')
+  }
+  if (recorder?.isRecording) {
+    throw new Error('A recording is already in progress')
+  }
+
+  recorder = new BABYLON.VideoRecorder(engine, { mimeType: VIDEO_MIME_TYPE, fps: VIDEO_FPS })
+  try {
+    // Without a file name the recorder hands back the clip instead of downloading it
+    const video = await recorder.startRecording(null, durationSeconds)
+    return { video }
+  } finally {
+    recorder = null
+  }
+}
+
+export function stopVideo() {
+  if (recorder?.isRecording) {
+    recorder.stopRecording()
+  }
+}
@@ -0,0 +1,211 @@
+import type {
+  CodeLocation,
+  ConsoleEntry,
+  ConsoleLevel,
+  InspectedProperty,
+  InspectedValue
+} from '@/lib/runtime/protocol'
+import { getUserCodeLocation } from './stack'
+
+// Forwards console output and uncaught errors from the sandbox to the host.
+// Logged objects are kept here by id so the host can expand them lazily.
+
+const CAPTURED_LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error']
+const MAX_INSPECTED_OBJECTS = 2000
+const MAX_PROPERTIES = 100
+const MAX_PREVIEW_KEYS = 5
+const MAX_STRING_PREVIEW = 120
+
+export const nativeConsole: Record<ConsoleLevel, (...args: unknown[]) => void> = {
+  log: console.log.bind(console),
+  info: console.info.bind(console),
+  warn: console.warn.bind(console),
+  error: console.error.bind(console)
+}
+
+type EntryListener = (entry: ConsoleEntry) => void
+
+let inspectedObjects: Map<number, object> = new Map()
+let nextObjectId = 1
+let nextEntryId = 1
+
+function truncate(text: string, length = MAX_STRING_PREVIEW) {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+function getClassName(value: object): string {
+  const babylonClassName = (value as { getClassName?: () => unknown }).getClassName
+  if (typeof babylonClassName === 'function') {
+    try {
+      const name = babylonClassName.call(value)
+      if (typeof name === 'string') return name
+    } catch {
+      // Fall back to the constructor name
+    }
+  }
+  return value.constructor?.name || 'Object'
+}
+
+function previewPrimitive(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(truncate(value, 40))
+  if (typeof value === 'function') return 'ƒ'
+  if (typeof value === 'object' && value !== null) {
+    return Array.isArray(value) ? `Array(${value.length})` : getClassName(value)
+  }
+  return String(value)
+}
+
+function previewObject(value: object): string {
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_PREVIEW_KEYS).map(previewPrimitive)
+    const more = value.length > MAX_PREVIEW_KEYS ? ', …' : ''
+    return `Array(${value.length}) [${items.join(', ')}${more}]`
+  }
+
+  const className = getClassName(value)
+
+  // Babylon math types describe themselves better than their private fields do
+  const toString = (value as { toString?: () => string }).toString
+  if (typeof toString === 'function' && toString !== Object.prototype.toString) {
+    try {
+      return truncate(`${className} ${toString.call(value)}`)
+    } catch {
+      // Fall through to a key preview
+    }
+  }
+
+  const keys = Object.keys(value)
+  const fields = keys
+    .slice(0, MAX_PREVIEW_KEYS)
+    .map(key => `${key}: ${previewPrimitive((value as Record<string, unknown>)[key])}`)
+  const more = keys.length > MAX_PREVIEW_KEYS ? ', …' : ''
+  const prefix = className === 'Object' ? '' : `${className} `
+  return truncate(`${prefix}{${fields.join(', ')}${more}}`)
+}
+
+function registerObject(value: object): number {
+  if (inspectedObjects.size >= MAX_INSPECTED_OBJECTS) {
+    // Forget the oldest handles; expanding them later just shows nothing
+    const oldest = inspectedObjects.keys().next().value
+    if (oldest !== undefined) {
+      inspectedObjects.delete(oldest)
+    }
+  }
+  const objectId = nextObjectId++
+  inspectedObjects.set(objectId, value)
+  return objectId
+}
+
+export function inspectValue(value: unknown): InspectedValue {
+  if (value === null) return { kind: 'primitive', type: 'null', text: 'null' }
+
+  switch (typeof value) {
+    case 'string':
+      return { kind: 'primitive', type: 'string', text: value }
+    case 'number':
+    case 'boolean':
+    case 'undefined':
+    case 'bigint':
+      return { kind: 'primitive', type: typeof value as 'number' | 'boolean' | 'undefined' | 'bigint', text: String(value) }
+    case 'symbol':
+      return { kind: 'primitive', type: 'symbol', text: value.toString() }
+    case 'function':
+      return { kind: 'function', text: `ƒ ${value.name || 'anonymous'}()` }
+  }
+
+  if (value instanceof Error) {
+    return { kind: 'error', text: `${value.name}: ${value.message}`, stack: value.stack }
+  }
+
+  const object = value as object
+  return { kind: 'object', text: previewObject(object), objectId: registerObject(object) }
+}
+
+// Own enumerable fields plus getters from the prototype chain, which is where
+// Babylon.js exposes most of its public state.
+function collectKeys(value: object): string[] {
+  const keys = new Set(Object.keys(value))
+  let proto = Object.getPrototypeOf(value)
+
+  while (proto && proto !== Object.prototype && proto !== Array.prototype) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, key)
+      if (descriptor?.get && key !== '__proto__') {
+        keys.add(key)
+      }
+    }
+    proto = Object.getPrototypeOf(proto)
+  }
+
+  return Array.from(keys)
+}
+
+export function inspectObject(objectId: number): { properties: InspectedProperty[]; truncated: boolean } {
+  const value = inspectedObjects.get(objectId)
+  if (!value) {
+    return { properties: [], truncated: false }
+  }
+
+  const keys = collectKeys(value)
+  const properties = keys.slice(0, MAX_PROPERTIES).map(key => {
+    try {
+      return { key, value: inspectValue((value as Record<string, unknown>)[key]) }
+    } catch (err) {
+      return { key, value: inspectValue(err) }
+    }
+  })
+
+  return { properties, truncated: keys.length > MAX_PROPERTIES }
+}
+
+// Handles from earlier runs point at disposed scenes; drop them on every run
+export function resetInspectedObjects() {
+  inspectedObjects = new Map()
+}
+
+function callerLocation(args: unknown[]): CodeLocation | undefined {
+  // An error argument knows where it was thrown; otherwise use the call site
+  const error = args.find(arg => arg instanceof Error) ?? new Error()
+  return getUserCodeLocation(error) ?? undefined
+}
+
+export function installConsoleCapture(onEntry: EntryListener, getRunId: () => number | null) {
+  const emit = (level: ConsoleLevel, args: unknown[], location?: CodeLocation) => {
+    onEntry({
+      id: nextEntryId++,
+      level,
+      args: args.map(inspectValue),
+      timestamp: Date.now(),
+      runId: getRunId(),
+      location
+    })
+  }
+
+  CAPTURED_LEVELS.forEach(level => {
+    console[level] = (...args: unknown[]) => {
+      nativeConsole[level](...args)
+      try {
+        emit(level, args, callerLocation(args))
+      } catch (err) {
+        nativeConsole.error('Failed to forward console output:', err)
+      }
+    }
+  })
+
+  window.addEventListener('error', (event) => {
+    const error = event.error ?? event.message
+    emit('error', [error], getUserCodeLocation(event.error) ?? undefined)
+  })
+
+  window.addEventListener('unhandledrejection', (event) => {
+    emit('error', ['Uncaught (in promise)', event.reason], getUserCodeLocation(event.reason) ?? undefined)
+  })
+
+  return {
+    // Errors the runtime catches itself but that should still show up as uncaught
+    reportError: (error: unknown) => {
+      nativeConsole.error(error)
+      emit('error', [error], getUserCodeLocation(error) ?? undefined)
+    }
+  }
+}
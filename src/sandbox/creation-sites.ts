@@ -0,0 +1,47 @@
+import * as BABYLON from '@babylonjs/core'
+import type { CodeLocation, CreationSite, SceneObjectRef } from '@/lib/runtime/protocol'
+import { getUserCallerLocation } from './stack'
+
+// Remembers the line of user code that created each mesh, transform node, light, camera
+// and material, so the editor can go from an object to its code and back. Objects the
+// runtime or the scene manager create have no site.
+
+const sites = new WeakMap<object, CodeLocation>()
+
+function record(object: object) {
+  const location = getUserCallerLocation()
+  if (location) {
+    sites.set(object, location)
+  }
+}
+
+// Scenes notify their observers from the constructors, while user code is still on the stack
+export function trackCreationSites(engine: BABYLON.AbstractEngine) {
+  engine.onNewSceneAddedObservable.add(scene => {
+    scene.onNewMeshAddedObservable.add(record)
+    scene.onNewTransformNodeAddedObservable.add(record)
+    scene.onNewLightAddedObservable.add(record)
+    scene.onNewCameraAddedObservable.add(record)
+    scene.onNewMaterialAddedObservable.add(record)
+  })
+}
+
+export function getCreationSite(object: object): CodeLocation | undefined {
+  return sites.get(object)
+}
+
+export function getCreationSites(scene: BABYLON.Scene): CreationSite[] {
+  const collect = (kind: SceneObjectRef['kind'], objects: { name: string }[]) =>
+    objects.flatMap(object => {
+      const location = sites.get(object)
+      return location ? [{ object: { kind, name: object.name }, location }] : []
+    })
+
+  return [
+    ...collect('mesh', scene.meshes),
+    ...collect('transform-node', scene.transformNodes),
+    ...collect('light', scene.lights),
+    ...collect('camera', scene.cameras),
+    ...collect('material', scene.materials)
+  ]
+}
@@ -0,0 +1,89 @@
+import * as BABYLON from '@babylonjs/core'
+import type { EngineBackend, EngineInfo } from '@/lib/runtime/protocol'
+
+// Creates the engine the host asked for in the sandbox URL. A canvas keeps the
+// first kind of context it hands out, so switching backends needs a fresh canvas;
+// the host gets one by loading a new sandbox frame.
+
+const ENGINE_BACKENDS: EngineBackend[] = ['webgl2', 'webgl1', 'webgpu', 'null']
+
+const WEBGL_OPTIONS: BABYLON.EngineOptions = {
+  preserveDrawingBuffer: true,
+  stencil: true,
+  antialias: true,
+  adaptToDeviceRatio: true
+}
+
+export function parseEngineBackend(value: string | null): EngineBackend {
+  return ENGINE_BACKENDS.includes(value as EngineBackend) ? (value as EngineBackend) : 'webgl2'
+}
+
+// What is actually running: WebGL2 silently drops to WebGL1 where the browser lacks it
+function getEngineBackend(engine: BABYLON.AbstractEngine): EngineBackend {
+  if (engine instanceof BABYLON.NullEngine) return 'null'
+  if (engine.isWebGPU) return 'webgpu'
+  return (engine as BABYLON.Engine).webGLVersion === 1 ? 'webgl1' : 'webgl2'
+}
+
+// A canvas that failed to start WebGPU may already hold its context, so WebGL gets a new one
+function replaceCanvas(canvas: HTMLCanvasElement) {
+  const replacement = canvas.cloneNode(false) as HTMLCanvasElement
+  canvas.replaceWith(replacement)
+  return replacement
+}
+
+async function createWebGPUEngine(canvas: HTMLCanvasElement) {
+  const engine = new BABYLON.WebGPUEngine(canvas, {
+    stencil: true,
+    antialias: true,
+    adaptToDeviceRatio: true
+  })
+  try {
+    await engine.initAsync()
+  } catch (err) {
+    engine.dispose()
+    throw err
+  }
+  return engine
+}
+
+export async function createEngine(
+  canvas: HTMLCanvasElement,
+  requested: EngineBackend
+): Promise<{ engine: BABYLON.AbstractEngine; canvas: HTMLCanvasElement; info: EngineInfo }> {
+  let engine: BABYLON.AbstractEngine | null = null
+  let fallbackReason: string | undefined
+
+  if (requested === 'null') {
+    engine = new BABYLON.NullEngine()
+  } else if (requested === 'webgpu') {
+    if (await BABYLON.WebGPUEngine.IsSupportedAsync) {
+      try {
+        engine = await createWebGPUEngine(canvas)
+      } catch (err) {
+        fallbackReason = `WebGPU failed to start: ${err instanceof Error ? err.message : String(err)}`
+        canvas = replaceCanvas(canvas)
+      }
+    } else {
+      fallbackReason = 'This browser does not support WebGPU'
+    }
+  }
+
+  if (!engine) {
+    engine = new BABYLON.Engine(canvas, true, {
+      ...WEBGL_OPTIONS,
+      disableWebGL2Support: requested === 'webgl1'
+    })
+  }
+
+  const backend = getEngineBackend(engine)
+  if (!fallbackReason && backend !== requested) {
+    fallbackReason = 'This browser does not support WebGL2'
+  }
+
+  return {
+    engine,
+    canvas,
+    info: { requested, backend, version: BABYLON.AbstractEngine.Version, fallbackReason }
+  }
+}
@@ -0,0 +1,93 @@
+import * as BABYLON from '@babylonjs/core'
+import { GLTF2Export } from '@babylonjs/serializers/glTF'
+import type { ExportedFile, SceneExportOptions } from '@/lib/runtime/protocol'
+
+// Serializes the live scene to glTF, GLB or .babylon. The files are handed to the
+// host as blobs, since the sandbox itself can't trigger downloads.
+
+const GLTF_MIME_TYPES: Record<string, string> = {
+  '.gltf': 'model/gltf+json',
+  '.glb': 'model/gltf-binary',
+  '.bin': 'application/octet-stream'
+}
+
+function isUtilityNode(node: BABYLON.Node, scene: BABYLON.Scene) {
+  // Gizmos live in a utility layer scene; the inspector also hides its helpers this way
+  return node.getScene() !== scene || Boolean(node.reservedDataStore?.hidden)
+}
+
+// The selected mesh keeps its ancestors so it ends up where it is in the scene
+function isInSelection(node: BABYLON.Node, selected: BABYLON.AbstractMesh) {
+  return node === selected || node.isDescendantOf(selected) || selected.isDescendantOf(node)
+}
+
+function createNodeFilter(scene: BABYLON.Scene, options: SceneExportOptions, selected: BABYLON.AbstractMesh | null) {
+  return (node: BABYLON.Node) => {
+    if (options.excludeGround && node.name === 'ground') return false
+    if (options.excludeUtilityMeshes && isUtilityNode(node, scene)) return false
+    if (selected && !isInSelection(node, selected)) return false
+    return true
+  }
+}
+
+function getMimeType(fileName: string) {
+  const extension = fileName.slice(fileName.lastIndexOf('.'))
+  return GLTF_MIME_TYPES[extension] ?? 'application/octet-stream'
+}
+
+async function exportGltf(
+  scene: BABYLON.Scene,
+  options: SceneExportOptions,
+  shouldExportNode: (node: BABYLON.Node) => boolean
+): Promise<ExportedFile[]> {
+  const exportOptions = { shouldExportNode }
+  const data = options.format === 'glb'
+    ? await GLTF2Export.GLBAsync(scene, options.fileName, exportOptions)
+    : await GLTF2Export.GLTFAsync(scene, options.fileName, exportOptions)
+
+  return Object.entries(data.files).map(([name, content]) => ({
+    name,
+    data: typeof content === 'string' ? new Blob([content], { type: getMimeType(name) }) : content
+  }))
+}
+
+async function exportBabylon(
+  scene: BABYLON.Scene,
+  options: SceneExportOptions,
+  shouldExportNode: (node: BABYLON.Node) => boolean,
+  selected: BABYLON.AbstractMesh | null
+): Promise<ExportedFile[]> {
+  // The serializer skips nodes flagged doNotSerialize; the flags are put back afterwards
+  const excluded = [...scene.meshes, ...scene.transformNodes].filter(
+    node => !node.doNotSerialize && !shouldExportNode(node)
+  )
+  excluded.forEach(node => { node.doNotSerialize = true })
+
+  try {
+    const serialized = selected
+      ? BABYLON.SceneSerializer.SerializeMesh(selected, true, true)
+      : await BABYLON.SceneSerializer.SerializeAsync(scene)
+    const data = new Blob([JSON.stringify(serialized)], { type: 'application/json' })
+    return [{ name: `${options.fileName}.babylon`, data }]
+  } finally {
+    excluded.forEach(node => { node.doNotSerialize = false })
+  }
+}
+
+export async function exportScene(
+  scene: BABYLON.Scene,
+  selected: BABYLON.AbstractMesh | null,
+  options: SceneExportOptions
+): Promise<{ files: ExportedFile[] }> {
+  if (options.selectedOnly && !selected) {
+    throw new Error('No mesh is selected; click one in the scene first')
+  }
+
+  const selection = options.selectedOnly ? selected : null
+  const shouldExportNode = createNodeFilter(scene, options, selection)
+  const files = options.format === 'babylon'
+    ? await exportBabylon(scene, options, shouldExportNode, selection)
+    : await exportGltf(scene, options, shouldExportNode)
+
+  return { files }
+}
@@ -0,0 +1,113 @@
+import * as BABYLON from '@babylonjs/core'
+import { DEFAULT_PLAYBACK, PlaybackState } from '@/lib/runtime/playback'
+
+// Decides how many times the scene renders per engine frame and how much time
+// each of those frames advances. The engine loop itself keeps running while
+// paused, so resuming picks up without a jump in time.
+
+// Babylon's own constant step, the one scene.useConstantAnimationDeltaTime uses
+const FIXED_STEP_MS = 16
+// Caps fast-forward so a high time scale can't stall the sandbox
+const MAX_STEPS_PER_TICK = 4
+
+export class FrameClock {
+  private state: PlaybackState = DEFAULT_PLAYBACK
+  private pendingSteps = 0
+  // Fractions of a step carried between engine frames in fixed-timestep mode
+  private stepCarry = 0
+  // Animations measure wall-clock time; the first frame after a pause must not count it
+  private skipElapsedTime = false
+  // Replaces the engine delta time while a fixed step renders
+  private deltaOverride: number | null = null
+  private frame = 0
+
+  constructor(engine: BABYLON.AbstractEngine) {
+    // Covers scene.getAnimationRatio, physics and user code reading the delta
+    const getDeltaTime = engine.getDeltaTime.bind(engine)
+    engine.getDeltaTime = () => this.deltaOverride ?? getDeltaTime() * this.state.timeScale
+  }
+
+  get isPaused() {
+    return this.state.paused
+  }
+
+  // Frames the current scene has rendered through this clock
+  get frameCount() {
+    return this.frame
+  }
+
+  configure(state: PlaybackState) {
+    if (this.state.paused && !state.paused) {
+      this.skipElapsedTime = true
+    }
+    if (!state.paused) {
+      this.pendingSteps = 0
+    }
+    this.state = state
+  }
+
+  // Queues a single fixed step; only meaningful while paused
+  step() {
+    if (this.state.paused) {
+      this.pendingSteps++
+    }
+  }
+
+  // A paused clock still renders the first frame of a new scene
+  reset() {
+    this.frame = 0
+    this.stepCarry = 0
+    this.pendingSteps = this.state.paused ? 1 : 0
+  }
+
+  // Called once per engine frame; returns how many frames of the scene it rendered
+  tick(scene: BABYLON.Scene): number {
+    if (!this.state.paused && !this.state.fixedTimestep) {
+      this.renderScaled(scene)
+      return 1
+    }
+
+    let steps: number
+    if (this.state.paused) {
+      steps = Math.min(this.pendingSteps, 1)
+      this.pendingSteps -= steps
+    } else {
+      this.stepCarry += this.state.timeScale
+      steps = Math.floor(this.stepCarry)
+      this.stepCarry -= steps
+      steps = Math.min(steps, MAX_STEPS_PER_TICK)
+    }
+
+    for (let i = 0; i < steps; i++) {
+      this.renderFixedStep(scene)
+    }
+    return steps
+  }
+
+  private renderScaled(scene: BABYLON.Scene) {
+    // Scaled on top of whatever the scene code set itself
+    const animationTimeScale = scene.animationTimeScale
+    scene.animationTimeScale = this.skipElapsedTime ? 0 : animationTimeScale * this.state.timeScale
+    this.skipElapsedTime = false
+    try {
+      scene.render()
+    } finally {
+      scene.animationTimeScale = animationTimeScale
+    }
+    this.frame++
+  }
+
+  // The same step for animations, getAnimationRatio and physics, however long the frame took
+  private renderFixedStep(scene: BABYLON.Scene) {
+    const useConstantAnimationDeltaTime = scene.useConstantAnimationDeltaTime
+    scene.useConstantAnimationDeltaTime = true
+    this.deltaOverride = FIXED_STEP_MS
+    try {
+      scene.render()
+    } finally {
+      scene.useConstantAnimationDeltaTime = useConstantAnimationDeltaTime
+      this.deltaOverride = null
+    }
+    this.frame++
+  }
+}
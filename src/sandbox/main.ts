@@ -0,0 +1,500 @@
+import * as BABYLON from '@babylonjs/core'
+import '@babylonjs/inspector'
+import { registerBuiltInLoaders } from '@babylonjs/loaders/dynamic'
+import { SceneManager } from './scene-manager'
+import { getUserCodeLocation, parseStackFrames } from './stack'
+import { ResourceTracker } from './resource-tracker'
+import { getCreationSite, getCreationSites, trackCreationSites } from './creation-sites'
+import { toObjectRef } from './outline'
+import { createEngine, parseEngineBackend } from './engine-factory'
+import { FrameClock } from './frame-clock'
+import { StatsMonitor } from './stats-monitor'
+import { captureScreenshot, recordVideo, stopVideo } from './capture'
+import { renderSnapshot } from './snapshot'
+import { exportScene } from './exporter'
+import { installAssetResolver, setAssets } from './asset-resolver'
+import { ExecutionAbortedError, installLoopGuard, setExecutionBudget, withExecutionBudget } from './watchdog'
+import { inspectObject, installConsoleCapture, nativeConsole, resetInspectedObjects } from './console-capture'
+import {
+  captureCameraState,
+  createDefaultScene,
+  createFallbackScene,
+  executeUserCode,
+  restoreCameraState,
+  setGlobalEngine,
+  setGlobalScene
+} from './runner'
+import {
+  EngineInfo,
+  HostMessage,
+  SandboxMessage,
+  SandboxRequestMethod,
+  SandboxRequests,
+  SceneSummary,
+  SnapshotOptions,
+  isRuntimeMessage,
+  wrapMessage
+} from '@/lib/runtime/protocol'
+import { getPlaybackCommand } from '@/lib/runtime/playback'
+import { getHistoryCommand } from '@/lib/code-history'
+
+// Entry point of the sandboxed iframe. It owns the canvas, the engine and the
+// scene, and only reaches the host application through postMessage.
+
+const searchParams = new URLSearchParams(window.location.search)
+const hostOrigin = searchParams.get('host') || '*'
+const sceneManager = new SceneManager()
+
+let canvas = document.getElementById('renderCanvas') as HTMLCanvasElement
+let engine: BABYLON.AbstractEngine | null = null
+let engineInfo: EngineInfo | null = null
+let resourceTracker: ResourceTracker | null = null
+let frameClock: FrameClock | null = null
+let statsMonitor: StatsMonitor | null = null
+let scene: BABYLON.Scene | null = null
+// Run that produced the active scene
+let activeRunId = 0
+// Set when the active scene threw while rendering; the next run clears it
+let renderFailed = false
+// Run whose result may still become the active scene; async runs that finish after a newer one started are dropped
+let latestRunId = 0
+// View state to carry over to the next scene, kept across superseded runs
+let carriedState: { camera: ReturnType<typeof captureCameraState>; selectedMeshName: string | null } | null = null
+let resizeTimeout: ReturnType<typeof setTimeout> | null = null
+
+function post(message: SandboxMessage) {
+  window.parent.postMessage(wrapMessage(message), hostOrigin)
+}
+
+const consoleCapture = installConsoleCapture(
+  entry => post({ type: 'console', entry }),
+  () => latestRunId || null
+)
+
+function toErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback
+}
+
+// Reports an error thrown by user code, with its stack mapped to user-code lines
+function reportUserError(runId: number, source: 'user-code' | 'render-loop', error: unknown, fallback: string) {
+  consoleCapture.reportError(error)
+  post({
+    type: 'error',
+    runId,
+    source,
+    message: toErrorMessage(error, fallback),
+    stack: error instanceof Error ? error.stack : undefined,
+    location: getUserCodeLocation(error) ?? undefined,
+    frames: parseStackFrames(error),
+    aborted: error instanceof ExecutionAbortedError
+  })
+}
+
+function postPlaybackFrame() {
+  if (frameClock) {
+    post({ type: 'playback-frame', frame: frameClock.frameCount })
+  }
+}
+
+function renderFrame() {
+  if (!scene || renderFailed || !frameClock) return
+
+  // Observers such as onBeforeRenderObservable run inside render()
+  try {
+    const rendered = frameClock.tick(scene)
+    if (rendered > 0 && frameClock.isPaused) {
+      postPlaybackFrame()
+    }
+  } catch (err) {
+    // The same frame would throw again on every tick, so hold the last good one
+    renderFailed = true
+    reportUserError(activeRunId, 'render-loop', err, 'Error while rendering the scene')
+  }
+}
+
+function summarize(target: BABYLON.Scene): SceneSummary {
+  return {
+    meshes: target.meshes.length,
+    lights: target.lights.length,
+    cameras: target.cameras.length
+  }
+}
+
+// Disposes the active scene and any scene a pending async run is still building
+function disposeScenes() {
+  statsMonitor?.setScene(null, null)
+  engine?.scenes.slice().forEach(target => target.dispose())
+  scene = null
+  activeRunId = 0
+  renderFailed = false
+  setGlobalScene(null)
+}
+
+// Disposes the scenes along with whatever earlier runs left outside of them
+function releaseResources() {
+  if (!resourceTracker) {
+    disposeScenes()
+    return
+  }
+
+  const report = resourceTracker.cleanup(disposeScenes)
+  if (Object.keys(report.reclaimed).length > 0 || report.unreclaimed.length > 0) {
+    post({ type: 'resource-report', report })
+  }
+}
+
+function activateScene(next: BABYLON.Scene, runId: number, selectedMeshName: string | null) {
+  scene = next
+  activeRunId = runId
+  renderFailed = false
+  setGlobalScene(next)
+  frameClock?.reset()
+  statsMonitor?.setScene(next, runId)
+
+  // Setup scene manager with gizmos and code synchronization
+  sceneManager.setScene(next, {
+    onCodeEdits: edits => post({ type: 'code-edits', edits }),
+    onSelectionChange: object => post({
+      type: 'selection-changed',
+      runId,
+      object: object ? toObjectRef(object) : null,
+      location: object ? getCreationSite(object) : undefined
+    }),
+    onOutlineChange: nodes => post({ type: 'scene-outline', nodes }),
+    onPropertiesChange: properties => post({ type: 'selection-properties', properties })
+  })
+
+  // Restarts the loop after a stop; the engine ignores an already registered function
+  engine?.runRenderLoop(renderFrame)
+
+  // Restore selected mesh if it was saved during code update
+  if (selectedMeshName) {
+    setTimeout(() => {
+      sceneManager.restoreSelection(selectedMeshName)
+    }, 100)
+  }
+
+  post({ type: 'scene-ready', runId, summary: summarize(next), creationSites: getCreationSites(next) })
+}
+
+async function runCode(runId: number, code: string) {
+  if (!engine || !resourceTracker) return
+
+  latestRunId = runId
+  resetInspectedObjects()
+
+  try {
+    if (scene) {
+      carriedState = {
+        camera: captureCameraState(scene),
+        selectedMeshName: sceneManager.getSelectedMeshName()
+      }
+    }
+
+    releaseResources()
+
+    let next: BABYLON.Scene
+
+    if (code.trim()) {
+      resourceTracker.begin(runId)
+      const execution = executeUserCode(code, engine, canvas, resourceTracker.createTimerScope())
+      try {
+        next = await withExecutionBudget(execution, 'createScene')
+      } catch (userError) {
+        if (runId !== latestRunId) return
+
+        if (userError instanceof ExecutionAbortedError) {
+          // The abandoned run may still resolve later; its scene must not linger
+          execution.then(late => late.dispose(), () => {})
+        }
+        // Throw away whatever the failed run built before falling back
+        releaseResources()
+        reportUserError(runId, 'user-code', userError, 'Error in user code')
+        next = createFallbackScene(engine, canvas)
+      }
+    } else {
+      next = createDefaultScene(engine, canvas)
+    }
+
+    // A newer run started while this one was awaiting
+    if (runId !== latestRunId) {
+      if (!next.isDisposed) {
+        next.dispose()
+      }
+      return
+    }
+
+    restoreCameraState(next, carriedState?.camera ?? null, canvas)
+    activateScene(next, runId, carriedState?.selectedMeshName ?? null)
+    carriedState = null
+  } catch (err) {
+    if (runId !== latestRunId) return
+
+    nativeConsole.error('Error setting up scene:', err)
+    post({
+      type: 'error',
+      runId,
+      source: 'runtime',
+      message: toErrorMessage(err, 'Error setting up 3D scene'),
+      stack: err instanceof Error ? err.stack : undefined
+    })
+  }
+}
+
+function stop() {
+  // Pending async runs must not bring a scene back after a stop
+  latestRunId = 0
+  carriedState = null
+  sceneManager.dispose()
+  releaseResources()
+  if (engine) {
+    engine.stopRenderLoop(renderFrame)
+    // Otherwise the preserved drawing buffer keeps showing the last frame
+    engine.clear(new BABYLON.Color4(0, 0, 0, 0), true, true, true)
+  }
+  post({ type: 'stopped' })
+}
+
+function dispose() {
+  stop()
+  if (engine) {
+    engine.dispose()
+    engine = null
+  }
+}
+
+function requireEngine() {
+  if (!engine) {
+    throw new Error('The engine is not running')
+  }
+  return engine
+}
+
+function requireScene() {
+  if (!scene) {
+    throw new Error('No active scene to capture')
+  }
+  return scene
+}
+
+async function takeSnapshot(options: SnapshotOptions) {
+  if (!engineInfo) {
+    throw new Error('The engine is not running')
+  }
+
+  try {
+    return await renderSnapshot(engineInfo.backend, options)
+  } finally {
+    // Running the snapshot code pointed the globals at its own engine and scene
+    setGlobalEngine(requireEngine(), canvas)
+    setGlobalScene(scene)
+  }
+}
+
+async function toggleInspector(): Promise<{ visible: boolean }> {
+  if (!scene) {
+    throw new Error('No active scene to inspect')
+  }
+
+  if (scene.debugLayer.isVisible()) {
+    scene.debugLayer.hide()
+    return { visible: false }
+  }
+
+  await scene.debugLayer.show({
+    embedMode: true,
+    overlay: true,
+    globalRoot: document.body,
+    showExplorer: true,
+    handleResize: true,
+    initialTab: 0
+  })
+  return { visible: true }
+}
+
+const requestHandlers: {
+  [M in SandboxRequestMethod]: (
+    params: SandboxRequests[M]['params']
+  ) => SandboxRequests[M]['result'] | Promise<SandboxRequests[M]['result']>
+} = {
+  'toggle-inspector': toggleInspector,
+  'inspect-object': ({ objectId }) => inspectObject(objectId),
+  'capture-screenshot': options => captureScreenshot(requireEngine(), requireScene(), options),
+  'record-video': ({ durationSeconds }) => {
+    requireScene()
+    return recordVideo(requireEngine(), durationSeconds)
+  },
+  'stop-video': stopVideo,
+  'render-snapshot': takeSnapshot,
+  'export-scene': options => exportScene(requireScene(), sceneManager.getSelectedMesh(), options),
+  'import-model': ({ fileName }) => {
+    requireScene()
+    return sceneManager.importModel(fileName)
+  },
+  'apply-texture': ({ texture, point }) => {
+    requireScene()
+    return sceneManager.applyTexture(texture, point)
+  },
+  'apply-material': ({ asset, point }) => {
+    requireScene()
+    return sceneManager.applyMaterial(asset, point)
+  },
+  'edit-scene-node': ({ id, change }) => {
+    requireScene()
+    sceneManager.editSceneNode(id, change)
+  },
+  'set-object-property': ({ change, commit }) => {
+    requireScene()
+    sceneManager.setObjectProperty(change, commit)
+  }
+}
+
+async function handleRequest(id: number, method: SandboxRequestMethod, params: unknown) {
+  const handler = requestHandlers[method] as (params: unknown) => unknown
+  if (!handler) {
+    post({ type: 'response', id, error: `Unknown request: ${method}` })
+    return
+  }
+
+  try {
+    const result = await handler(params)
+    post({ type: 'response', id, result })
+  } catch (err) {
+    post({ type: 'response', id, error: toErrorMessage(err, 'Request failed') })
+  }
+}
+
+function handleMessage(event: MessageEvent) {
+  if (event.source !== window.parent) return
+  if (hostOrigin !== '*' && event.origin !== hostOrigin) return
+  if (!isRuntimeMessage<HostMessage>(event.data)) return
+
+  const message = event.data
+  switch (message.type) {
+    case 'hello':
+      if (engine && engineInfo) {
+        post({ type: 'ready', engine: engineInfo })
+      }
+      break
+    case 'configure':
+      setExecutionBudget(message.executionBudgetMs)
+      break
+    case 'ping':
+      post({ type: 'pong' })
+      break
+    case 'run':
+      runCode(message.runId, message.code)
+      break
+    case 'stop':
+      stop()
+      break
+    case 'playback':
+      frameClock?.configure(message.playback)
+      if (message.playback.paused && scene) {
+        postPlaybackFrame()
+      }
+      break
+    case 'step-frame':
+      frameClock?.step()
+      break
+    case 'set-stats':
+      statsMonitor?.setEnabled(message.enabled)
+      break
+    case 'dispose':
+      dispose()
+      break
+    case 'set-assets':
+      setAssets(message.files)
+      break
+    case 'add-asset':
+      sceneManager.addAsset(message.asset.code, message.asset.name, message.asset.type, message.placement)
+      break
+    case 'select-object':
+      sceneManager.selectObject(message.object)
+      break
+    case 'request':
+      handleRequest(message.id, message.method, message.params)
+      break
+  }
+}
+
+function handleResize() {
+  if (resizeTimeout) {
+    clearTimeout(resizeTimeout)
+  }
+
+  resizeTimeout = setTimeout(() => {
+    engine?.resize()
+    sceneManager.handleResize()
+  }, 300)
+}
+
+// Keys go to the focused iframe, so playback and undo shortcuts are passed on to the host
+function handleKeyDown(event: KeyboardEvent) {
+  const command = getPlaybackCommand(event)
+  if (command) {
+    event.preventDefault()
+    post({ type: 'playback-command', command })
+    return
+  }
+  const historyCommand = getHistoryCommand(event)
+  if (historyCommand) {
+    event.preventDefault()
+    post({ type: 'history-command', command: historyCommand })
+  }
+}
+
+// Files dropped on the canvas land in this frame; the host keeps them and starts the import
+function handleDragOver(event: DragEvent) {
+  if (event.dataTransfer?.types.includes('Files')) {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+  }
+}
+
+function handleDrop(event: DragEvent) {
+  const files = Array.from(event.dataTransfer?.files ?? [])
+  if (files.length === 0) return
+  event.preventDefault()
+  post({ type: 'files-dropped', files })
+}
+
+async function boot() {
+  installLoopGuard()
+  // Loaders for glTF, OBJ, STL and the rest are fetched the first time a file needs them
+  registerBuiltInLoaders()
+  installAssetResolver()
+
+  try {
+    const created = await createEngine(canvas, parseEngineBackend(searchParams.get('engine')))
+    engine = created.engine
+    canvas = created.canvas
+    engineInfo = created.info
+
+    resourceTracker = new ResourceTracker(engine, [window, document, canvas])
+    trackCreationSites(engine)
+    frameClock = new FrameClock(engine)
+    statsMonitor = new StatsMonitor(engine, sample => post({ type: 'stats', sample }))
+
+    // Start render loop
+    engine.runRenderLoop(renderFrame)
+
+    window.addEventListener('resize', handleResize)
+    window.addEventListener('message', handleMessage)
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('drop', handleDrop)
+
+    post({ type: 'ready', engine: engineInfo })
+  } catch (err) {
+    nativeConsole.error('Failed to initialize Babylon.js:', err)
+    post({
+      type: 'error',
+      runId: null,
+      source: 'runtime',
+      message: toErrorMessage(err, 'Failed to initialize 3D engine')
+    })
+  }
+}
+
+boot()
@@ -0,0 +1,49 @@
+import * as BABYLON from '@babylonjs/core'
+import type { OutlineNode, SceneObjectKind, SceneObjectRef } from '@/lib/runtime/protocol'
+
+// What the outliner lists: every node of the scene as a tree, and its materials
+
+export type OutlineObject = BABYLON.Node | BABYLON.Material
+
+// Created on demand by meshes without a material, not by scene code
+const DEFAULT_MATERIAL_NAME = 'default material'
+
+export function getObjectKind(object: OutlineObject): SceneObjectKind {
+  if (object instanceof BABYLON.AbstractMesh) return 'mesh'
+  if (object instanceof BABYLON.Light) return 'light'
+  if (object instanceof BABYLON.Camera) return 'camera'
+  if (object instanceof BABYLON.Material) return 'material'
+  return 'transform-node'
+}
+
+export function toObjectRef(object: OutlineObject): SceneObjectRef {
+  return { kind: getObjectKind(object), name: object.name }
+}
+
+export function findOutlineObject(scene: BABYLON.Scene, id: number): OutlineObject | null {
+  return scene.getNodes().find(node => node.uniqueId === id) ??
+    scene.materials.find(material => material.uniqueId === id) ??
+    null
+}
+
+export function getSceneOutline(scene: BABYLON.Scene): OutlineNode[] {
+  const nodes = [...scene.transformNodes, ...scene.meshes, ...scene.lights, ...scene.cameras].map(node => ({
+    id: node.uniqueId,
+    kind: getObjectKind(node),
+    name: node.name,
+    parentId: node.parent?.uniqueId ?? null,
+    enabled: node.isEnabled(false),
+    pickable: node instanceof BABYLON.AbstractMesh ? node.isPickable : null
+  }))
+  const materials = scene.materials
+    .filter(material => material.name !== DEFAULT_MATERIAL_NAME)
+    .map(material => ({
+      id: material.uniqueId,
+      kind: 'material' as const,
+      name: material.name,
+      parentId: null,
+      enabled: true,
+      pickable: null
+    }))
+  return [...nodes, ...materials]
+}
@@ -0,0 +1,235 @@
+import * as BABYLON from '@babylonjs/core'
+import type { ResourceKind, ResourceReport } from '@/lib/runtime/protocol'
+import { LOOP_GUARD_GLOBAL } from '@/lib/compiler/types'
+import { isCalledFromUserCode } from './stack'
+
+// Keeps track of what user code attaches outside of its scene - render loops,
+// timers, listeners and engine observers - so that it can be released before
+// the next run. Disposing the scene alone leaves all of these running.
+
+type EngineObservable = BABYLON.Observable<unknown>
+
+interface TrackedListener {
+  target: EventTarget
+  type: string
+  listener: EventListenerOrEventListenerObject
+  capture: boolean
+}
+
+// Handed to user code in place of the window functions, so its timers can be cancelled
+export interface TimerScope {
+  setTimeout: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+  clearTimeout: (id?: number) => void
+  setInterval: (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+  clearInterval: (id?: number) => void
+  requestAnimationFrame: (callback: FrameRequestCallback) => number
+  cancelAnimationFrame: (id: number) => void
+}
+
+// Globals the runtime itself sets for user code
+const RUNTIME_GLOBALS = new Set(['BABYLON', 'scene', 'engine', 'canvas', LOOP_GUARD_GLOBAL])
+
+function isCapture(options?: boolean | EventListenerOptions) {
+  return typeof options === 'boolean' ? options : !!options?.capture
+}
+
+function describeTexture(texture: BABYLON.InternalTexture) {
+  return texture.url ? texture.url : `${texture.width}×${texture.height} texture`
+}
+
+export class ResourceTracker {
+  private runId = 0
+  private renderLoops: Set<() => void> = new Set()
+  private timeouts: Set<number> = new Set()
+  private intervals: Set<number> = new Set()
+  private animationFrames: Set<number> = new Set()
+  private listeners: TrackedListener[] = []
+  private observers: { observable: EngineObservable; observer: BABYLON.Observer<unknown> }[] = []
+  private baselineTextures: Set<BABYLON.InternalTexture>
+  private baselineGlobals: Set<string> = new Set()
+
+  constructor(private engine: BABYLON.AbstractEngine, eventTargets: EventTarget[]) {
+    this.baselineTextures = new Set(engine.getLoadedTexturesCache())
+    this.trackRenderLoops()
+    this.trackEngineObservers()
+    eventTargets.forEach(target => this.trackEventListeners(target))
+  }
+
+  // Attributes what gets created from here on to the given run
+  begin(runId: number) {
+    this.runId = runId
+    this.baselineGlobals = new Set(Object.getOwnPropertyNames(window))
+  }
+
+  createTimerScope(): TimerScope {
+    return {
+      setTimeout: (handler, timeout, ...args) => {
+        if (typeof handler !== 'function') return window.setTimeout(handler, timeout, ...args)
+        const id = window.setTimeout((...callbackArgs: unknown[]) => {
+          this.timeouts.delete(id)
+          handler(...callbackArgs)
+        }, timeout, ...args)
+        this.timeouts.add(id)
+        return id
+      },
+      clearTimeout: id => {
+        if (id !== undefined) this.timeouts.delete(id)
+        window.clearTimeout(id)
+      },
+      setInterval: (handler, timeout, ...args) => {
+        const id = window.setInterval(handler, timeout, ...args)
+        this.intervals.add(id)
+        return id
+      },
+      clearInterval: id => {
+        if (id !== undefined) this.intervals.delete(id)
+        window.clearInterval(id)
+      },
+      requestAnimationFrame: callback => {
+        const id = window.requestAnimationFrame(time => {
+          this.animationFrames.delete(id)
+          callback(time)
+        })
+        this.animationFrames.add(id)
+        return id
+      },
+      cancelAnimationFrame: id => {
+        this.animationFrames.delete(id)
+        window.cancelAnimationFrame(id)
+      }
+    }
+  }
+
+  // Stops everything that was tracked, disposes the scenes in between and then
+  // reclaims GPU resources that outlived them
+  cleanup(disposeScenes: () => void): ResourceReport {
+    const reclaimed: Partial<Record<ResourceKind, number>> = {}
+    const unreclaimed: ResourceReport['unreclaimed'] = []
+    const count = (kind: ResourceKind, amount = 1) => {
+      if (amount > 0) {
+        reclaimed[kind] = (reclaimed[kind] ?? 0) + amount
+      }
+    }
+
+    const renderLoops = Array.from(this.renderLoops)
+    renderLoops.forEach(renderFunction => this.engine.stopRenderLoop(renderFunction))
+    count('render-loop', renderLoops.length)
+
+    this.timeouts.forEach(id => window.clearTimeout(id))
+    this.intervals.forEach(id => window.clearInterval(id))
+    this.animationFrames.forEach(id => window.cancelAnimationFrame(id))
+    count('timeout', this.timeouts.size)
+    count('interval', this.intervals.size)
+    count('animation-frame', this.animationFrames.size)
+
+    const listeners = this.listeners
+    listeners.forEach(({ target, type, listener, capture }) => target.removeEventListener(type, listener, capture))
+    count('event-listener', listeners.length)
+
+    count('engine-observer', this.observers.filter(({ observable, observer }) => observable.remove(observer)).length)
+
+    this.renderLoops.clear()
+    this.timeouts.clear()
+    this.intervals.clear()
+    this.animationFrames.clear()
+    this.listeners = []
+    this.observers = []
+
+    disposeScenes()
+
+    // The engine creates placeholder textures such as emptyTexture on first use
+    const engineTextures = new Set(
+      Object.values(this.engine).filter(value => value instanceof BABYLON.InternalTexture)
+    )
+
+    // Anything else still on the engine now was created outside a scene or leaked by one
+    this.engine.getLoadedTexturesCache().slice().forEach(texture => {
+      if (this.baselineTextures.has(texture) || engineTextures.has(texture)) return
+      texture.dispose()
+      if (this.engine.getLoadedTexturesCache().includes(texture)) {
+        unreclaimed.push({ kind: 'texture', description: `${describeTexture(texture)} is still referenced` })
+      } else {
+        count('texture')
+      }
+    })
+
+    this.engine.postProcesses.slice().forEach(postProcess => {
+      postProcess.dispose()
+      count('post-process')
+    })
+
+    // Globals can't be told apart from ones the user meant to keep, so only report them
+    Object.getOwnPropertyNames(window).forEach(name => {
+      if (!this.baselineGlobals.has(name) && !RUNTIME_GLOBALS.has(name)) {
+        unreclaimed.push({ kind: 'global', description: `window.${name} keeps a value from this run alive` })
+      }
+    })
+
+    return { runId: this.runId, timestamp: Date.now(), reclaimed, unreclaimed }
+  }
+
+  private trackRenderLoops() {
+    const runRenderLoop = this.engine.runRenderLoop.bind(this.engine)
+    const stopRenderLoop = this.engine.stopRenderLoop.bind(this.engine)
+
+    this.engine.runRenderLoop = (renderFunction: () => void) => {
+      if (isCalledFromUserCode()) {
+        this.renderLoops.add(renderFunction)
+      }
+      runRenderLoop(renderFunction)
+    }
+
+    this.engine.stopRenderLoop = (renderFunction?: () => void) => {
+      if (renderFunction) {
+        this.renderLoops.delete(renderFunction)
+      } else {
+        this.renderLoops.clear()
+      }
+      stopRenderLoop(renderFunction)
+    }
+  }
+
+  private trackEngineObservers() {
+    Object.values(this.engine).forEach((value: unknown) => {
+      if (!(value instanceof BABYLON.Observable)) return
+
+      const observable = value as EngineObservable
+      const add = observable.add.bind(observable) as (...args: unknown[]) => BABYLON.Observer<unknown> | null
+      observable.add = ((...args: unknown[]) => {
+        const observer = add(...args)
+        if (observer && isCalledFromUserCode()) {
+          this.observers.push({ observable, observer })
+        }
+        return observer
+      }) as EngineObservable['add']
+    })
+  }
+
+  private trackEventListeners(target: EventTarget) {
+    const addEventListener = target.addEventListener.bind(target)
+    const removeEventListener = target.removeEventListener.bind(target)
+
+    target.addEventListener = (
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      options?: boolean | AddEventListenerOptions
+    ) => {
+      if (listener && isCalledFromUserCode()) {
+        this.listeners.push({ target, type, listener, capture: isCapture(options) })
+      }
+      addEventListener(type, listener, options)
+    }
+
+    target.removeEventListener = (
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      options?: boolean | EventListenerOptions
+    ) => {
+      const capture = isCapture(options)
+      this.listeners = this.listeners.filter(tracked =>
+        !(tracked.target === target && tracked.type === type && tracked.listener === listener && tracked.capture === capture)
+      )
+      removeEventListener(type, listener, options)
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import * as BABYLON from '@babylonjs/core'
+import { createUserFunction } from './stack'
+import { BABYLON_NAMESPACE, BabylonNamespace } from './babylon-namespace'
+import type { TimerScope } from './resource-tracker'
+
+interface CameraState {
+  position: BABYLON.Vector3
+  rotation?: BABYLON.Vector3
+  target?: BABYLON.Vector3
+  alpha?: number
+  beta?: number
+  radius?: number
+  type: string
+}
+
+interface SandboxGlobals {
+  BABYLON?: BabylonNamespace
+  scene?: BABYLON.Scene | null
+  engine?: BABYLON.AbstractEngine
+  canvas?: HTMLCanvasElement
+}
+
+const sandboxWindow = window as unknown as Window & SandboxGlobals
+
+// Save current camera state before disposing scene
+export function captureCameraState(scene: BABYLON.Scene): CameraState | null {
+  const currentCamera = scene.activeCamera
+  if (!currentCamera) return null
+
+  const state: CameraState = {
+    position: currentCamera.position.clone(),
+    type: currentCamera.getClassName()
+  }
+
+  // Handle different camera types
+  if (currentCamera instanceof BABYLON.ArcRotateCamera) {
+    state.alpha = currentCamera.alpha
+    state.beta = currentCamera.beta
+    state.radius = currentCamera.radius
+    state.target = currentCamera.target.clone()
+  } else if (currentCamera instanceof BABYLON.FreeCamera) {
+    state.rotation = currentCamera.rotation.clone()
+    state.target = currentCamera.getTarget().clone()
+  }
+
+  return state
+}
+
+// Restore camera state if no camera was created by user code
+export function restoreCameraState(scene: BABYLON.Scene, state: CameraState | null, canvas: HTMLCanvasElement) {
+  if (!state || (scene.activeCamera && scene.cameras.length > 0)) return
+
+  if (state.type === 'FreeCamera') {
+    const camera = new BABYLON.FreeCamera('camera1', state.position, scene)
+    if (state.rotation) {
+      camera.rotation = state.rotation
+    }
+    if (state.target) {
+      camera.setTarget(state.target)
+    }
+    camera.attachControl(canvas, true)
+  } else if (state.type === 'ArcRotateCamera' && state.target) {
+    const camera = new BABYLON.ArcRotateCamera(
+      'camera1',
+      state.alpha || 0,
+      state.beta || 0,
+      state.radius || 10,
+      state.target,
+      scene
+    )
+    camera.attachControl(canvas, true)
+  }
+}
+
+// Scene with a camera and light only, used when user code fails
+export function createFallbackScene(engine: BABYLON.AbstractEngine, canvas: HTMLCanvasElement) {
+  const scene = new BABYLON.Scene(engine)
+
+  const camera = new BABYLON.FreeCamera('camera1', new BABYLON.Vector3(0, 5, -10), scene)
+  camera.setTarget(BABYLON.Vector3.Zero())
+  camera.attachControl(canvas, true)
+
+  const light = new BABYLON.HemisphericLight('light', new BABYLON.Vector3(0, 1, 0), scene)
+  light.intensity = 0.7
+
+  return scene
+}
+
+// Default scene when there is no code
+export function createDefaultScene(engine: BABYLON.AbstractEngine, canvas: HTMLCanvasElement) {
+  const scene = createFallbackScene(engine, canvas)
+
+  const sphere = BABYLON.MeshBuilder.CreateSphere('sphere', { diameter: 2, segments: 32 }, scene)
+  sphere.position.y = 1
+
+  BABYLON.MeshBuilder.CreateGround('ground', { width: 6, height: 6 }, scene)
+
+  return scene
+}
+
+// Runs user code inside the sandbox window. Rejects with whatever the user code throws.
+// The timer functions shadow the window ones so the runtime can cancel them later.
+export async function executeUserCode(
+  code: string,
+  engine: BABYLON.AbstractEngine,
+  canvas: HTMLCanvasElement,
+  timers: TimerScope
+): Promise<BABYLON.Scene> {
+  // Set up global variables
+  sandboxWindow.BABYLON = BABYLON_NAMESPACE
+  sandboxWindow.scene = null
+  sandboxWindow.engine = engine
+  sandboxWindow.canvas = canvas
+
+  // User code starts on the first body line so stack positions line up with it
+  const timerNames = Object.keys(timers) as (keyof TimerScope)[]
+  const userFunction = createUserFunction(['BABYLON', 'engine', 'canvas', ...timerNames], `${code}
+
+    // If createScene function exists, call it and return the scene, which may be a Promise
+    if (typeof createScene === "function") {
+      return await createScene();
+    }
+
+    // Otherwise return the global scene if it was created
+    return window.scene;
+  `)
+
+  const scene = (await userFunction(BABYLON_NAMESPACE, engine, canvas, ...timerNames.map(name => timers[name]))) as BABYLON.Scene | null
+
+  // If no scene was returned, create a default one
+  return scene || new BABYLON.Scene(engine)
+}
+
+export function setGlobalScene(scene: BABYLON.Scene | null) {
+  sandboxWindow.scene = scene
+}
+
+// Puts back the live engine after code ran against another one, such as a snapshot's
+export function setGlobalEngine(engine: BABYLON.AbstractEngine, canvas: HTMLCanvasElement) {
+  sandboxWindow.engine = engine
+  sandboxWindow.canvas = canvas
+}
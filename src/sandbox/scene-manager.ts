@@ -0,0 +1,988 @@
+import * as BABYLON from '@babylonjs/core'
+import type {
+  AssetPayload,
+  AssetPlacement,
+  AssetType,
+  CanvasPoint,
+  MaterialColorProperty,
+  ObjectProperties,
+  ObjectPropertyChange,
+  OutlineNode,
+  SceneCodeEdit,
+  SceneNodeChange,
+  SceneObjectRef,
+  TextureSource,
+  TransformProperty,
+  Vector3Tuple
+} from '@/lib/runtime/protocol'
+import { ASSET_URL_PREFIX } from '@/lib/asset-url'
+import { BABYLON_NAMESPACE } from './babylon-namespace'
+import { createTexture, getTextureCode, getTextureVariable } from './textures'
+import { formatBuilderOptions, getBuilderCall } from './builder-calls'
+import { OutlineObject, findOutlineObject, getSceneOutline, toObjectRef } from './outline'
+
+interface SceneObject {
+  id: string
+  name: string
+  type: AssetType
+  babylonObject: any
+}
+
+type Transform = Record<TransformProperty, Vector3Tuple>
+
+export interface SceneManagerCallbacks {
+  // The host patches these into the user's code, which keeps everything else as written
+  onCodeEdits?: (edits: SceneCodeEdit[]) => void
+  onSelectionChange?: (object: OutlineObject | null) => void
+  onOutlineChange?: (nodes: OutlineNode[]) => void
+  onPropertiesChange?: (properties: ObjectProperties | null) => void
+}
+
+const TRANSFORM_PROPERTIES: TransformProperty[] = ['position', 'rotation', 'scaling']
+// Gizmo drags are written with two decimals; typed values keep what was typed
+const GIZMO_DECIMALS = 2
+const STANDARD_COLORS: MaterialColorProperty[] = ['diffuseColor', 'specularColor', 'emissiveColor', 'ambientColor']
+const PBR_COLORS: MaterialColorProperty[] = ['albedoColor', 'emissiveColor', 'ambientColor']
+// Scenes that create objects every frame would otherwise send an outline every frame
+const OUTLINE_INTERVAL_MS = 100
+
+// A valid variable name from an object name; names that can't start one get the prefix
+function toIdentifier(name: string, prefix: string) {
+  const identifier = name.replace(/[^A-Za-z0-9_$]/g, '')
+  return /^[A-Za-z_$]/.test(identifier) ? identifier : `${prefix}${identifier}`
+}
+
+export class SceneManager {
+  private scene: BABYLON.Scene | null = null
+  private objects: Map<string, SceneObject> = new Map()
+  private gizmoManager: BABYLON.GizmoManager | null = null
+  private callbacks: SceneManagerCallbacks = {}
+  // The gizmos' mesh, or a light, camera or transform node selected without gizmos
+  private selected: OutlineObject | null = null
+  private outlineTimeout: ReturnType<typeof setTimeout> | null = null
+
+  constructor() {
+    this.setupGizmos = this.setupGizmos.bind(this)
+    this.addAsset = this.addAsset.bind(this)
+    this.importModel = this.importModel.bind(this)
+    this.applyTexture = this.applyTexture.bind(this)
+    this.applyMaterial = this.applyMaterial.bind(this)
+  }
+
+  setScene(scene: BABYLON.Scene, callbacks: SceneManagerCallbacks = {}) {
+    this.scene = scene
+    this.callbacks = callbacks
+    this.selected = null
+    this.setupGizmos()
+    this.syncExistingObjects()
+    this.watchOutline()
+  }
+
+  private watchOutline() {
+    const scene = this.scene
+    const observables: BABYLON.Observable<unknown>[] = [
+      scene.onNewMeshAddedObservable,
+      scene.onMeshRemovedObservable,
+      scene.onNewTransformNodeAddedObservable,
+      scene.onTransformNodeRemovedObservable,
+      scene.onNewLightAddedObservable,
+      scene.onLightRemovedObservable,
+      scene.onNewCameraAddedObservable,
+      scene.onCameraRemovedObservable,
+      scene.onNewMaterialAddedObservable,
+      scene.onMaterialRemovedObservable
+    ]
+    observables.forEach(observable => observable.add(() => this.scheduleOutline()))
+    this.scheduleOutline()
+  }
+
+  private scheduleOutline() {
+    if (this.outlineTimeout) return
+
+    this.outlineTimeout = setTimeout(() => {
+      this.outlineTimeout = null
+      if (this.scene && !this.scene.isDisposed) {
+        this.callbacks.onOutlineChange?.(getSceneOutline(this.scene))
+      }
+    }, OUTLINE_INTERVAL_MS)
+  }
+
+  private setSelected(object: OutlineObject | null) {
+    this.selected = object
+    this.callbacks.onSelectionChange?.(object)
+    this.postProperties()
+  }
+
+  private postProperties() {
+    this.callbacks.onPropertiesChange?.(this.selected ? this.getProperties(this.selected) : null)
+  }
+
+  private getProperties(object: OutlineObject): ObjectProperties {
+    const material = object instanceof BABYLON.AbstractMesh ? object.material : null
+    return {
+      object: toObjectRef(object),
+      transform: object instanceof BABYLON.TransformNode ? this.getTransform(object) : null,
+      light: object instanceof BABYLON.Light
+        ? { intensity: object.intensity, diffuse: object.diffuse.toHexString() }
+        : null,
+      camera: object instanceof BABYLON.Camera
+        ? {
+            fov: object.mode === BABYLON.Camera.PERSPECTIVE_CAMERA ? object.fov : null,
+            minZ: object.minZ,
+            maxZ: object.maxZ
+          }
+        : null,
+      material: this.canGenerateMaterial(material)
+        ? {
+            name: material.name,
+            colors: this.getMaterialColors(material).map(property => ({
+              property,
+              value: this.getMaterialColor(material, property).toHexString()
+            }))
+          }
+        : null
+    }
+  }
+
+  private getMaterialColors(material: BABYLON.StandardMaterial | BABYLON.PBRMaterial) {
+    return material instanceof BABYLON.PBRMaterial ? PBR_COLORS : STANDARD_COLORS
+  }
+
+  private getMaterialColor(material: BABYLON.StandardMaterial | BABYLON.PBRMaterial, property: MaterialColorProperty) {
+    return (material as unknown as Record<MaterialColorProperty, BABYLON.Color3>)[property]
+  }
+
+  // Applies a value typed into the properties panel to the selected object
+  setObjectProperty(change: ObjectPropertyChange, commit: boolean) {
+    const object = this.selected
+    if (!object) {
+      throw new Error('Select an object first')
+    }
+    const target = toObjectRef(object)
+    const edits: SceneCodeEdit[] = []
+
+    switch (change.section) {
+      case 'transform': {
+        if (!(object instanceof BABYLON.TransformNode)) {
+          throw new Error(`${object.name} has no position, rotation or scaling`)
+        }
+        const previous = this.getTransform(object)
+        const vector = BABYLON.Vector3.FromArray(change.value)
+        if (change.property === 'rotation' && object.rotationQuaternion) {
+          object.rotationQuaternion = BABYLON.Quaternion.FromEulerVector(vector)
+        } else {
+          object[change.property] = vector
+        }
+        edits.push({ kind: 'transform', target, property: change.property, previous: previous[change.property], next: change.value })
+        break
+      }
+      case 'light': {
+        if (!(object instanceof BABYLON.Light)) {
+          throw new Error(`${object.name} is not a light`)
+        }
+        if (change.property === 'intensity') {
+          object.intensity = change.value
+          edits.push({ kind: 'assign', target, property: 'intensity', value: this.formatNumber(change.value) })
+        } else {
+          object.diffuse = BABYLON.Color3.FromHexString(change.value)
+          edits.push({ kind: 'assign', target, property: 'diffuse', value: this.formatColor(object.diffuse) })
+        }
+        break
+      }
+      case 'camera':
+        if (!(object instanceof BABYLON.Camera)) {
+          throw new Error(`${object.name} is not a camera`)
+        }
+        object[change.property] = change.value
+        edits.push({ kind: 'assign', target, property: change.property, value: this.formatNumber(change.value) })
+        break
+      case 'material': {
+        const material = object instanceof BABYLON.AbstractMesh ? object.material : null
+        if (!this.canGenerateMaterial(material) || !this.getMaterialColors(material).includes(change.property)) {
+          throw new Error(`${object.name} has no ${change.property}`)
+        }
+        const color = BABYLON.Color3.FromHexString(change.value)
+        this.getMaterialColor(material, change.property).copyFrom(color)
+        edits.push({
+          kind: 'assign',
+          target: toObjectRef(material),
+          property: change.property,
+          value: this.formatColor(color)
+        })
+        break
+      }
+    }
+
+    if (commit) {
+      this.postEdits(edits)
+    }
+    this.postProperties()
+  }
+
+  private setupGizmos() {
+    if (!this.scene) return
+
+    // Each run gets its own manager; the last run's would keep its utility layer scenes alive
+    this.gizmoManager?.dispose()
+
+    // Create gizmo manager
+    this.gizmoManager = new BABYLON.GizmoManager(this.scene)
+    
+    // Enable all gizmos
+    this.gizmoManager.positionGizmoEnabled = true
+    this.gizmoManager.rotationGizmoEnabled = true
+    this.gizmoManager.scaleGizmoEnabled = true
+    this.gizmoManager.boundingBoxGizmoEnabled = false
+
+    // Style the gizmos for better visibility and usability
+    if (this.gizmoManager.gizmos.positionGizmo) {
+      // Make position gizmo larger
+      this.gizmoManager.gizmos.positionGizmo.scaleRatio = 1.5
+    }
+    
+    if (this.gizmoManager.gizmos.rotationGizmo) {
+      // Make rotation gizmo larger
+      this.gizmoManager.gizmos.rotationGizmo.scaleRatio = 1.3
+    }
+    
+    if (this.gizmoManager.gizmos.scaleGizmo) {
+      // Make scale gizmo visible
+      this.gizmoManager.gizmos.scaleGizmo.scaleRatio = 1.0
+    }
+
+    this.gizmoManager.onAttachedToMeshObservable.add(mesh => this.setSelected(mesh))
+
+    // A drag reports what changed since it started, so only those components get patched
+    let dragStart: Transform | null = null
+    const gizmos = [
+      this.gizmoManager.gizmos.positionGizmo,
+      this.gizmoManager.gizmos.rotationGizmo,
+      this.gizmoManager.gizmos.scaleGizmo
+    ]
+    gizmos.forEach(gizmo => {
+      gizmo?.onDragStartObservable.add(() => {
+        const mesh = this.gizmoManager?.attachedMesh
+        dragStart = mesh ? this.getTransform(mesh) : null
+      })
+      gizmo?.onDragEndObservable.add(() => {
+        const mesh = this.gizmoManager?.attachedMesh
+        if (mesh && dragStart) {
+          this.postTransformEdits(mesh, dragStart)
+          this.postProperties()
+        }
+        dragStart = null
+      })
+    })
+
+    // Handle mesh selection
+    this.scene.onPointerObservable.add((pointerInfo) => {
+      if (pointerInfo.pickInfo?.hit && pointerInfo.pickInfo.pickedMesh) {
+        // Parts of an imported model move with the model
+        const mesh = this.getModelRoot(pointerInfo.pickInfo.pickedMesh) ?? pointerInfo.pickInfo.pickedMesh
+        if (mesh.name !== 'ground' && mesh.name !== 'skybox') {
+          this.gizmoManager?.attachToMesh(mesh)
+        }
+      }
+    })
+
+    // Handle clicks on empty space to deselect
+    this.scene.actionManager = new BABYLON.ActionManager(this.scene)
+    this.scene.actionManager.registerAction(
+      new BABYLON.ExecuteCodeAction(
+        BABYLON.ActionManager.OnPickTrigger,
+        (evt) => {
+          if (!evt.meshUnderPointer && this.gizmoManager) {
+            this.gizmoManager.attachToMesh(null)
+          }
+        }
+      )
+    )
+  }
+
+  private getTransform(node: BABYLON.TransformNode): Transform {
+    // The rotation gizmo turns meshes through rotationQuaternion
+    const rotation = node.rotationQuaternion?.toEulerAngles() ?? node.rotation
+    return {
+      position: node.position.asArray() as Vector3Tuple,
+      rotation: rotation.asArray() as Vector3Tuple,
+      scaling: node.scaling.asArray() as Vector3Tuple
+    }
+  }
+
+  private postTransformEdits(mesh: BABYLON.AbstractMesh, previous: Transform) {
+    const current = this.getTransform(mesh)
+    const next = {} as Transform
+    TRANSFORM_PROPERTIES.forEach(property => {
+      next[property] = current[property].map(value => Number(value.toFixed(GIZMO_DECIMALS))) as Vector3Tuple
+    })
+    const edits: SceneCodeEdit[] = TRANSFORM_PROPERTIES
+      .filter(property => current[property].some((value, index) => value !== previous[property][index]))
+      .map(property => ({
+        kind: 'transform',
+        target: toObjectRef(mesh),
+        property,
+        previous: previous[property],
+        next: next[property]
+      }))
+    this.postEdits(edits)
+  }
+
+  private postEdits(edits: SceneCodeEdit[]) {
+    if (edits.length > 0) {
+      this.callbacks.onCodeEdits?.(edits)
+    }
+  }
+
+  addAsset(assetCode: string, assetName: string, assetType: AssetType, placement?: AssetPlacement) {
+    if (!this.scene) return
+
+    try {
+      // Generate unique ID
+      const id = `${assetName}_${Date.now()}`
+      
+      // Execute the asset code to create the object
+      const babylonObject = this.runAssetCode(assetCode, assetName, assetType)
+      
+      if (babylonObject) {
+        if (placement && babylonObject instanceof BABYLON.AbstractMesh) {
+          this.placeMesh(babylonObject, placement)
+        }
+        const suffix = babylonObject instanceof BABYLON.Node ? this.makeNameUnique(babylonObject) : null
+        const name = suffix ? `${assetName} ${suffix}` : assetName
+
+        // Store the object
+        const sceneObject: SceneObject = {
+          id,
+          name,
+          type: assetType,
+          babylonObject
+        }
+        
+        this.objects.set(id, sceneObject)
+        this.postEdits([{ kind: 'insert', code: this.generateObjectCode(babylonObject, name, assetType) }])
+        
+        // Auto-select the new object if it's a mesh
+        if (assetType === 'mesh' && this.gizmoManager) {
+          setTimeout(() => {
+            this.gizmoManager?.attachToMesh(babylonObject)
+          }, 100)
+        }
+      }
+    } catch (error) {
+      console.error('Error adding asset:', error)
+    }
+  }
+
+  // A second "box" becomes "box2", so the code inserted for it declares a variable of its own
+  private makeNameUnique(node: BABYLON.Node): number | null {
+    const base = node.name
+    const isTaken = (name: string) => this.scene.getNodes().some(other => other !== node && other.name === name)
+    if (!isTaken(base)) return null
+
+    let index = 2
+    while (isTaken(`${base}${index}`)) index++
+    node.name = `${base}${index}`
+    return index
+  }
+
+  // Rests the mesh on whatever the ray from the drop point hits first, or on the ground
+  // plane when it hits nothing; a ray that never reaches the plane leaves it where it is
+  private placeMesh(mesh: BABYLON.AbstractMesh, placement: AssetPlacement) {
+    const scene = this.scene
+    const { x, y } = placement.point
+    const pick = scene.pick(x, y, other =>
+      other !== mesh && !other.isDescendantOf(mesh) && other.isPickable && other.isEnabled() && other.isVisible
+    )
+
+    let point: BABYLON.Vector3
+    let normal = BABYLON.Vector3.Up()
+    if (pick.hit && pick.pickedPoint) {
+      point = pick.pickedPoint
+      normal = pick.getNormal(true, true) ?? normal
+    } else {
+      const ray = scene.createPickingRay(x, y, BABYLON.Matrix.Identity(), scene.activeCamera)
+      const distance = ray.intersectsPlane(BABYLON.Plane.FromPositionAndNormal(BABYLON.Vector3.Zero(), BABYLON.Vector3.Up()))
+      if (distance === null) return
+      point = ray.origin.add(ray.direction.scale(distance))
+    }
+
+    if (placement.alignToSurface) {
+      const rotation = BABYLON.Quaternion.FromUnitVectorsToRef(BABYLON.Vector3.Up(), normal, new BABYLON.Quaternion())
+      mesh.rotation = rotation.toEulerAngles()
+    } else {
+      normal = BABYLON.Vector3.Up()
+    }
+
+    // Offset by the part below the origin, so the mesh sits on the surface instead of in it
+    const bottom = mesh.getBoundingInfo().boundingBox.minimum.y * mesh.scaling.y
+    mesh.position = point.subtract(normal.scale(bottom))
+  }
+
+  private runAssetCode(assetCode: string, assetName: string, assetType: AssetType) {
+    const func = new Function('BABYLON', 'scene', 'canvas', `
+      ${assetCode}
+      
+      // Return the created object (try to find it by searching for new objects)
+      const allMeshes = scene.meshes
+      const allLights = scene.lights  
+      const allCameras = scene.cameras
+      const allMaterials = scene.materials
+      
+      // Return the last created object of the expected type
+      if (typeof ${assetName.split(' ')[0].toLowerCase()} !== 'undefined') {
+        return ${assetName.split(' ')[0].toLowerCase()}
+      }
+      
+      // Fallback: return the newest object of the right type
+      switch ('${assetType}') {
+        case 'mesh':
+          return allMeshes[allMeshes.length - 1]
+        case 'light':
+          return allLights[allLights.length - 1]
+        case 'camera':
+          return allCameras[allCameras.length - 1]
+        case 'material':
+          return allMaterials[allMaterials.length - 1]
+        default:
+          return null
+      }
+    `)
+
+    return func(BABYLON_NAMESPACE, this.scene, this.scene.getEngine().getRenderingCanvas())
+  }
+
+  // Loads a stored file through its asset:// URL and puts its top-level meshes under
+  // one root, which is what the gizmos move and the generated code positions
+  async importModel(fileName: string): Promise<{ name: string; meshes: number }> {
+    if (!this.scene) {
+      throw new Error('No scene is running')
+    }
+
+    const scene = this.scene
+    const name = this.getUniqueModelName(fileName)
+    const root = new BABYLON.Mesh(name, scene)
+    root.metadata = { modelFile: fileName }
+
+    let meshes: BABYLON.AbstractMesh[]
+    try {
+      const result = await BABYLON.SceneLoader.ImportMeshAsync('', ASSET_URL_PREFIX, fileName, scene)
+      meshes = result.meshes
+    } catch (error) {
+      root.dispose()
+      throw error
+    }
+    // A run replaced the scene, and disposed the model with it, while the file loaded
+    if (scene !== this.scene) {
+      throw new Error('The scene changed while the model was loading')
+    }
+    meshes.filter(mesh => !mesh.parent).forEach(mesh => { mesh.parent = root })
+
+    const sceneObject: SceneObject = {
+      id: `${name}_${Date.now()}`,
+      name,
+      type: 'mesh',
+      babylonObject: root
+    }
+    this.objects.set(sceneObject.id, sceneObject)
+    this.postEdits([{ kind: 'insert', code: this.generateObjectCode(root, name, 'mesh') }])
+    this.gizmoManager?.attachToMesh(root)
+
+    return { name, meshes: meshes.length }
+  }
+
+  // Puts the texture on the mesh under the canvas point, or on the selected mesh
+  // without one, reusing the mesh's material when it has one
+  applyTexture(source: TextureSource, point?: CanvasPoint): { meshName: string } {
+    const mesh = this.getMaterialTarget(point)
+    const scene = this.scene
+    const safeName = mesh.name.toLowerCase().replace(/\s+/g, '')
+    const texture = createTexture(source, `${safeName}Texture`, scene)
+    const hadMaterial = this.canGenerateMaterial(mesh.material)
+    let material: BABYLON.StandardMaterial | BABYLON.PBRMaterial
+    if (this.canGenerateMaterial(mesh.material)) {
+      material = mesh.material
+    } else {
+      material = new BABYLON.StandardMaterial(`${safeName}Material`, scene)
+      mesh.material = material
+    }
+
+    const previous = material instanceof BABYLON.PBRMaterial ? material.albedoTexture : material.diffuseTexture
+    if (material instanceof BABYLON.PBRMaterial) {
+      material.albedoTexture = texture
+    } else {
+      material.diffuseTexture = texture
+    }
+    if (previous && !scene.materials.some(other => other.hasTexture(previous))) {
+      previous.dispose()
+    }
+
+    const materialVariable = this.getMaterialVariable(material)
+    const textureVariable = getTextureVariable(source, materialVariable)
+    const textureCode = getTextureCode(texture, textureVariable)
+    if (textureCode && hadMaterial) {
+      this.postEdits([{
+        kind: 'assign',
+        target: { kind: 'material', name: material.name },
+        property: material instanceof BABYLON.PBRMaterial ? 'albedoTexture' : 'diffuseTexture',
+        value: textureVariable,
+        declarations: textureCode
+      }])
+    } else if (textureCode) {
+      this.postEdits([{
+        kind: 'assign',
+        target: { kind: 'mesh', name: mesh.name },
+        property: 'material',
+        value: materialVariable,
+        declarations: this.getMaterialDefinition(material, textureVariable)
+      }])
+    }
+    return { meshName: mesh.name }
+  }
+
+  // Runs a material asset and puts the material on the mesh under the canvas point, or on
+  // the selected mesh. Applying the same asset again shares the material it created first.
+  applyMaterial(asset: AssetPayload, point?: CanvasPoint): { meshName: string; materialName: string } {
+    const mesh = this.getMaterialTarget(point)
+    const created = this.runAssetCode(asset.code, asset.name, 'material')
+    if (!(created instanceof BABYLON.Material)) {
+      throw new Error(`${asset.name} did not create a material`)
+    }
+
+    let material: BABYLON.Material = created
+    const existing = this.scene.materials.find(other => other !== created && other.name === created.name)
+    if (existing) {
+      created.dispose()
+      material = existing
+    }
+
+    const previous = mesh.material
+    mesh.material = material
+    if (previous && previous !== material && !this.scene.meshes.some(other => other.material === previous)) {
+      previous.dispose()
+    }
+
+    if (this.canGenerateMaterial(material)) {
+      this.postEdits([{
+        kind: 'assign',
+        target: { kind: 'mesh', name: mesh.name },
+        property: 'material',
+        value: this.getMaterialVariable(material),
+        declarations: this.getMaterialDefinition(material)
+      }])
+    }
+    return { meshName: mesh.name, materialName: material.name }
+  }
+
+  // The mesh under the canvas point, or the selected mesh without one
+  private getMaterialTarget(point?: CanvasPoint): BABYLON.AbstractMesh {
+    if (!this.scene) {
+      throw new Error('No scene is running')
+    }
+
+    const mesh = point
+      ? this.scene.pick(point.x, point.y).pickedMesh
+      : this.gizmoManager?.attachedMesh
+    if (!mesh) {
+      throw new Error(point ? 'There is no mesh under the drop point' : 'Select a mesh first')
+    }
+    if (mesh.parent && this.getModelRoot(mesh.parent)) {
+      throw new Error('Imported models keep the materials from their file')
+    }
+    return mesh
+  }
+
+  // "Robot Arm.glb" -> "robotarm", numbered if the scene already has one
+  private getUniqueModelName(fileName: string) {
+    let base = fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+    if (!/^[a-z]/.test(base)) {
+      base = `model${base}`
+    }
+
+    let name = base
+    for (let index = 2; this.scene?.getNodeByName(name); index++) {
+      name = `${base}${index}`
+    }
+    return name
+  }
+
+  private getModelRoot(node: BABYLON.Node): BABYLON.AbstractMesh | null {
+    for (let current: BABYLON.Node | null = node; current; current = current.parent) {
+      if (current.metadata?.modelFile && current instanceof BABYLON.AbstractMesh) {
+        return current
+      }
+    }
+    return null
+  }
+
+  private generateObjectCode(obj: any, name: string, type: string): string {
+    if (!obj) return ''
+
+    // "Torus Knot 2" -> torusknot2. The compiler renames it again if the code already uses it.
+    const safeName = toIdentifier(name.toLowerCase(), type)
+    
+    switch (type) {
+      case 'mesh':
+        if (obj.metadata?.modelFile) {
+          return this.generateModelCode(obj, safeName)
+        }
+        return `// ${name}
+const ${safeName} = ${this.getMeshCreationCode(obj)};
+${safeName}.position = new BABYLON.Vector3(${obj.position.x.toFixed(2)}, ${obj.position.y.toFixed(2)}, ${obj.position.z.toFixed(2)});
+${safeName}.rotation = new BABYLON.Vector3(${obj.rotation.x.toFixed(2)}, ${obj.rotation.y.toFixed(2)}, ${obj.rotation.z.toFixed(2)});
+${safeName}.scaling = new BABYLON.Vector3(${obj.scaling.x.toFixed(2)}, ${obj.scaling.y.toFixed(2)}, ${obj.scaling.z.toFixed(2)});`
+
+      case 'light':
+        return `// ${name}
+const ${safeName} = ${this.getLightCreationCode(obj)};
+${safeName}.intensity = ${obj.intensity.toFixed(2)};${this.getLightOptionsCode(obj, safeName)}`
+
+      case 'camera':
+        return `// ${name}
+const ${safeName} = ${this.getCameraCreationCode(obj)};
+${safeName}.setTarget(BABYLON.Vector3.Zero());`
+
+      default:
+        return `// ${name}\n// Code generation not implemented for type: ${type}`
+    }
+  }
+
+  private generateModelCode(root: BABYLON.AbstractMesh, safeName: string): string {
+    const fileName = root.metadata.modelFile
+    const fileLiteral = JSON.stringify(fileName)
+    return `// Model ${fileName}
+const ${safeName} = new BABYLON.Mesh("${root.name}", scene);
+${safeName}.metadata = { modelFile: ${fileLiteral} };
+const ${safeName}Import = await BABYLON.SceneLoader.ImportMeshAsync("", "${ASSET_URL_PREFIX}", ${fileLiteral}, scene);
+${safeName}Import.meshes.filter(mesh => !mesh.parent).forEach(mesh => { mesh.parent = ${safeName}; });
+${safeName}.position = new BABYLON.Vector3(${root.position.x.toFixed(2)}, ${root.position.y.toFixed(2)}, ${root.position.z.toFixed(2)});
+${safeName}.rotation = new BABYLON.Vector3(${root.rotation.x.toFixed(2)}, ${root.rotation.y.toFixed(2)}, ${root.rotation.z.toFixed(2)});
+${safeName}.scaling = new BABYLON.Vector3(${root.scaling.x.toFixed(2)}, ${root.scaling.y.toFixed(2)}, ${root.scaling.z.toFixed(2)});`
+  }
+
+  private canGenerateMaterial(material: BABYLON.Material | null): material is BABYLON.StandardMaterial | BABYLON.PBRMaterial {
+    return material instanceof BABYLON.StandardMaterial || material instanceof BABYLON.PBRMaterial
+  }
+
+  // "Red Material" -> "RedMaterial"; numbered when scene code gave several materials one name
+  private getMaterialVariable(material: BABYLON.Material) {
+    const base = toIdentifier(material.name, 'material')
+    const index = material.getScene().materials
+      .filter(other => toIdentifier(other.name, 'material') === base)
+      .indexOf(material)
+    return index > 0 ? `${base}${index + 1}` : base
+  }
+
+  private formatNumber(value: number) {
+    return String(Number(value.toFixed(4)))
+  }
+
+  private formatColor(color: BABYLON.Color3) {
+    return `new BABYLON.Color3(${color.r.toFixed(2)}, ${color.g.toFixed(2)}, ${color.b.toFixed(2)})`
+  }
+
+  private getMaterialDefinition(
+    material: BABYLON.StandardMaterial | BABYLON.PBRMaterial,
+    textureVariable = `${this.getMaterialVariable(material)}Texture`
+  ): string {
+    const variable = this.getMaterialVariable(material)
+    const isPBR = material instanceof BABYLON.PBRMaterial
+    const lines = [
+      `// ${material.name}`,
+      `const ${variable} = new BABYLON.${isPBR ? 'PBRMaterial' : 'StandardMaterial'}(${JSON.stringify(material.name)}, scene);`
+    ]
+
+    if (isPBR) {
+      lines.push(`${variable}.albedoColor = ${this.formatColor(material.albedoColor)};`)
+      if (material.metallic !== null) lines.push(`${variable}.metallic = ${material.metallic.toFixed(2)};`)
+      if (material.roughness !== null) lines.push(`${variable}.roughness = ${material.roughness.toFixed(2)};`)
+    } else {
+      lines.push(`${variable}.diffuseColor = ${this.formatColor(material.diffuseColor)};`)
+    }
+
+    const texture = isPBR ? material.albedoTexture : material.diffuseTexture
+    const textureCode = texture && getTextureCode(texture, textureVariable)
+    if (textureCode) {
+      lines.push(textureCode)
+      lines.push(`${variable}.${isPBR ? 'albedoTexture' : 'diffuseTexture'} = ${textureVariable};`)
+    }
+    return lines.join('\n')
+  }
+
+  private getMeshCreationCode(mesh: any): string {
+    const builderCall = getBuilderCall(mesh)
+    if (builderCall) {
+      return `BABYLON.MeshBuilder.${builderCall.method}("${mesh.name}", ${formatBuilderOptions(builderCall.options)}, scene)`
+    }
+
+    const meshType = mesh.getClassName()
+    
+    // Try to determine the mesh type and generate appropriate creation code
+    if (mesh.name.includes('box') || meshType === 'BoxMesh') {
+      return `BABYLON.MeshBuilder.CreateBox("${mesh.name}", {size: 2}, scene)`
+    } else if (mesh.name.includes('sphere') || meshType === 'SphereMesh') {
+      return `BABYLON.MeshBuilder.CreateSphere("${mesh.name}", {diameter: 2}, scene)`
+    } else if (mesh.name.includes('cylinder')) {
+      return `BABYLON.MeshBuilder.CreateCylinder("${mesh.name}", {height: 3, diameter: 2}, scene)`
+    } else if (mesh.name.includes('plane')) {
+      return `BABYLON.MeshBuilder.CreatePlane("${mesh.name}", {size: 2}, scene)`
+    } else if (mesh.name.includes('torus')) {
+      return `BABYLON.MeshBuilder.CreateTorus("${mesh.name}", {diameter: 2, thickness: 0.5}, scene)`
+    }
+    
+    return `BABYLON.MeshBuilder.CreateBox("${mesh.name}", {size: 2}, scene)`
+  }
+
+  private getLightCreationCode(light: any): string {
+    const lightType = light.getClassName()
+    
+    switch (lightType) {
+      case 'DirectionalLight':
+        return `new BABYLON.DirectionalLight("${light.name}", new BABYLON.Vector3(-1, -1, -1), scene)`
+      case 'PointLight':
+        return `new BABYLON.PointLight("${light.name}", new BABYLON.Vector3(0, 5, 0), scene)`
+      case 'SpotLight':
+        return `new BABYLON.SpotLight("${light.name}", new BABYLON.Vector3(0, 5, 0), new BABYLON.Vector3(0, -1, 0), Math.PI / 3, 2, scene)`
+      default:
+        return `new BABYLON.HemisphericLight("${light.name}", new BABYLON.Vector3(0, 1, 0), scene)`
+    }
+  }
+
+  // Color and range, when they differ from what a new light has
+  private getLightOptionsCode(light: BABYLON.Light, safeName: string): string {
+    let code = ''
+    if (!light.diffuse.equals(BABYLON.Color3.White())) {
+      code += `\n${safeName}.diffuse = ${this.formatColor(light.diffuse)};`
+    }
+    if (light.range !== Number.MAX_VALUE) {
+      code += `\n${safeName}.range = ${light.range.toFixed(2)};`
+    }
+    return code
+  }
+
+  private getCameraCreationCode(camera: any): string {
+    const cameraType = camera.getClassName()
+    
+    switch (cameraType) {
+      case 'ArcRotateCamera':
+        return `new BABYLON.ArcRotateCamera("${camera.name}", -Math.PI / 2, Math.PI / 2.5, 10, BABYLON.Vector3.Zero(), scene)`
+      case 'FreeCamera':
+        return `new BABYLON.FreeCamera("${camera.name}", new BABYLON.Vector3(0, 5, -10), scene)`
+      default:
+        return `new BABYLON.FreeCamera("${camera.name}", new BABYLON.Vector3(0, 5, -10), scene)`
+    }
+  }
+
+  clearAll() {
+    this.objects.clear()
+    if (this.gizmoManager) {
+      this.gizmoManager.attachToMesh(null)
+    }
+  }
+
+  handleResize() {
+    if (this.scene && this.scene.getEngine()) {
+      this.scene.getEngine().resize()
+      // Reinitialize gizmos after resize to ensure they work properly
+      if (this.gizmoManager) {
+        const attachedMesh = this.gizmoManager.attachedMesh
+        if (attachedMesh) {
+          // Temporarily detach and reattach to refresh gizmo state
+          this.gizmoManager.attachToMesh(null)
+          setTimeout(() => {
+            this.gizmoManager?.attachToMesh(attachedMesh)
+          }, 50)
+        }
+      }
+    }
+  }
+
+  getSelectedMeshName(): string | null {
+    return this.gizmoManager?.attachedMesh?.name ?? null
+  }
+
+  getSelectedMesh(): BABYLON.AbstractMesh | null {
+    return this.gizmoManager?.attachedMesh ?? null
+  }
+
+  // Meshes select themselves, or their model when they're part of one. A material selects
+  // a mesh that uses it. Lights, cameras and transform nodes, which have no gizmos here,
+  // are selected with the gizmos detached.
+  selectObject(object: SceneObjectRef) {
+    if (!this.scene || !this.gizmoManager) return
+
+    let target: OutlineObject | null = null
+    switch (object.kind) {
+      case 'mesh':
+        target = this.scene.getMeshByName(object.name)
+        break
+      case 'material':
+        target = this.scene.meshes.find(other => other.material?.name === object.name) ?? null
+        break
+      case 'transform-node':
+        target = this.scene.getTransformNodeByName(object.name)
+        break
+      case 'light':
+        target = this.scene.getLightByName(object.name)
+        break
+      case 'camera':
+        target = this.scene.getCameraByName(object.name)
+        break
+    }
+    if (!target) return
+
+    if (target instanceof BABYLON.AbstractMesh && target.name !== 'ground' && target.name !== 'skybox') {
+      this.gizmoManager.attachToMesh(this.getModelRoot(target) ?? target)
+      return
+    }
+    if (this.gizmoManager.attachedMesh) {
+      this.gizmoManager.attachToMesh(null)
+    }
+    this.setSelected(target)
+  }
+
+  // Changes made from the outliner, mirrored into the code
+  editSceneNode(id: number, change: SceneNodeChange) {
+    if (!this.scene) {
+      throw new Error('No scene is running')
+    }
+    const object = findOutlineObject(this.scene, id)
+    if (!object) {
+      throw new Error('The object is no longer in the scene')
+    }
+    const target = toObjectRef(object)
+
+    switch (change.kind) {
+      case 'enabled':
+        if (!(object instanceof BABYLON.Node)) {
+          throw new Error('Materials cannot be hidden')
+        }
+        object.setEnabled(change.enabled)
+        if (!change.enabled) this.deselectWithin(object)
+        this.postEdits([{ kind: 'call', target, method: 'setEnabled', args: String(change.enabled) }])
+        break
+      case 'pickable':
+        if (!(object instanceof BABYLON.AbstractMesh)) {
+          throw new Error('Only meshes can be picked')
+        }
+        object.isPickable = change.pickable
+        if (!change.pickable) this.deselectWithin(object)
+        this.postEdits([{ kind: 'assign', target, property: 'isPickable', value: String(change.pickable) }])
+        break
+      case 'rename': {
+        const name = change.name.trim()
+        if (!name) {
+          throw new Error('Names cannot be empty')
+        }
+        object.name = name
+        this.postEdits([{ kind: 'rename', target, name }])
+        // The host finds the selection by name
+        if (this.selected === object) this.setSelected(object)
+        break
+      }
+      case 'parent': {
+        if (!(object instanceof BABYLON.Node)) {
+          throw new Error('Materials have no parent')
+        }
+        const parent = change.parentId === null ? null : findOutlineObject(this.scene, change.parentId)
+        if (change.parentId !== null && !(parent instanceof BABYLON.Node)) {
+          throw new Error('Only scene nodes can be parents')
+        }
+        if (parent instanceof BABYLON.Node && (parent === object || parent.isDescendantOf(object))) {
+          throw new Error(`${object.name} cannot go under its own child`)
+        }
+        object.parent = parent as BABYLON.Node | null
+        this.postEdits([{ kind: 'parent', target, parent: parent ? toObjectRef(parent) : null }])
+        break
+      }
+      case 'delete':
+        // Rendering stops without it
+        if (object === this.scene.activeCamera) {
+          throw new Error('The active camera cannot be deleted')
+        }
+        if (object instanceof BABYLON.Node) {
+          this.deselectWithin(object)
+        }
+        if (this.selected === object) this.setSelected(null)
+        object.dispose()
+        this.postEdits([{ kind: 'dispose', target }])
+        break
+    }
+    this.scheduleOutline()
+    this.postProperties()
+  }
+
+  // Hidden and locked objects don't keep the gizmos
+  private deselectWithin(node: BABYLON.Node) {
+    const attached = this.gizmoManager?.attachedMesh
+    if (attached && (attached === node || attached.isDescendantOf(node))) {
+      this.gizmoManager.attachToMesh(null)
+    }
+  }
+
+  restoreSelection(meshName: string) {
+    if (!this.scene || !this.gizmoManager) return
+    
+    // Find mesh by name in the current scene
+    const mesh = this.scene.meshes.find(m => m.name === meshName)
+    if (mesh && mesh.name !== 'ground' && mesh.name !== 'skybox') {
+      this.gizmoManager.attachToMesh(mesh)
+    }
+  }
+
+  private syncExistingObjects() {
+    if (!this.scene) return
+
+    // Clear existing tracked objects
+    this.objects.clear()
+
+    // Find all user-created meshes (exclude default ground, skybox, etc.)
+    this.scene.meshes.forEach((mesh, index) => {
+      // Meshes inside imported models come back with the import
+      const isModelPart = mesh.parent !== null && this.getModelRoot(mesh.parent) !== null
+      if (mesh.name !== 'ground' && mesh.name !== '__root__' && mesh.name !== 'skybox' && !isModelPart) {
+        const id = `existing_${mesh.name}_${index}`
+        const sceneObject: SceneObject = {
+          id,
+          name: mesh.name || `Mesh ${index}`,
+          type: 'mesh',
+          babylonObject: mesh
+        }
+        this.objects.set(id, sceneObject)
+
+        // Add property change listeners
+        this.setupObjectPropertyListeners(mesh, sceneObject)
+      }
+    })
+
+    // Sync lights (exclude default ones)
+    this.scene.lights.forEach((light, index) => {
+      if (light.name !== 'light' && light.name !== '__default__') {
+        const id = `existing_${light.name}_${index}`
+        const sceneObject: SceneObject = {
+          id,
+          name: light.name || `Light ${index}`,
+          type: 'light',
+          babylonObject: light
+        }
+        this.objects.set(id, sceneObject)
+      }
+    })
+  }
+
+  private setupObjectPropertyListeners(obj: any, sceneObject: SceneObject) {
+    // Property listeners are handled by the gizmo drag observers in setupGizmos
+    // This method is kept for future property listening implementations
+  }
+
+  dispose() {
+    this.clearAll()
+    if (this.outlineTimeout) {
+      clearTimeout(this.outlineTimeout)
+      this.outlineTimeout = null
+    }
+    if (this.gizmoManager) {
+      this.gizmoManager.dispose()
+      this.gizmoManager = null
+    }
+  }
+}
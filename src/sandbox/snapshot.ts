@@ -0,0 +1,63 @@
+import type { EngineBackend, SnapshotOptions } from '@/lib/runtime/protocol'
+import { createEngine } from './engine-factory'
+import { ResourceTracker } from './resource-tracker'
+import { FrameClock } from './frame-clock'
+import { captureScreenshot } from './capture'
+import { executeUserCode } from './runner'
+import { withExecutionBudget } from './watchdog'
+
+// Renders scene code in isolation for visual regression checks. A separate engine
+// of the requested size, a fixed timestep and a seeded Math.random make the same
+// code produce the same image on the same machine, whatever the live scene is doing.
+
+// mulberry32: small, fast and good enough to stand in for Math.random
+function createSeededRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export async function renderSnapshot(
+  backend: EngineBackend,
+  options: SnapshotOptions
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  if (backend === 'null') {
+    throw new Error('NullEngine draws nothing; switch to a rendering engine to take snapshots')
+  }
+
+  const detachedCanvas = document.createElement('canvas')
+  detachedCanvas.width = options.width
+  detachedCanvas.height = options.height
+  const { engine, canvas } = await createEngine(detachedCanvas, backend)
+  const tracker = new ResourceTracker(engine, [canvas])
+  const clock = new FrameClock(engine)
+  clock.configure({ paused: true, timeScale: 1, fixedTimestep: true })
+
+  const random = Math.random
+  Math.random = createSeededRandom(options.seed)
+
+  try {
+    tracker.begin(0)
+    const scene = await withExecutionBudget(
+      executeUserCode(options.code, engine, canvas, tracker.createTimerScope()),
+      'createScene'
+    )
+    await withExecutionBudget(scene.whenReadyAsync(), 'loading the scene')
+
+    for (let frame = 0; frame < options.frames; frame++) {
+      clock.step()
+      clock.tick(scene)
+    }
+
+    return await captureScreenshot(engine, scene, { width: options.width, height: options.height })
+  } finally {
+    Math.random = random
+    tracker.cleanup(() => engine.scenes.slice().forEach(scene => scene.dispose()))
+    engine.dispose()
+  }
+}
@@ -0,0 +1,102 @@
+import type { CodeLocation, StackFrame } from '@/lib/runtime/protocol'
+
+// User code is evaluated through an async function with a sourceURL, so its
+// stack frames can be told apart from runtime and Babylon.js frames.
+export const USER_CODE_URL = 'playground-scene.js'
+
+const USER_FRAME_PATTERN = new RegExp(`${USER_CODE_URL.replace('.', '\\.')}:(\\d+):(\\d+)`)
+// V8 "at fn (file:1:2)" / "at file:1:2", and SpiderMonkey/JSC "fn@file:1:2"
+const V8_FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/
+const GECKO_FRAME_PATTERN = /^(.*?)@(.+?):(\d+):(\d+)$/
+const MAX_STACK_FRAMES = 30
+
+type UserFunction = (...args: unknown[]) => Promise<unknown>
+type AsyncFunctionConstructor = new (...args: string[]) => UserFunction
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as AsyncFunctionConstructor
+
+// Async so that user code can use top-level await
+export function createUserFunction(params: string[], body: string): UserFunction {
+  return new AsyncFunction(...params, `${body}\n//# sourceURL=${USER_CODE_URL}`)
+}
+
+function findUserFrame(stack: string | undefined): CodeLocation | null {
+  const match = stack?.match(USER_FRAME_PATTERN)
+  return match ? { line: Number(match[1]), column: Number(match[2]) } : null
+}
+
+// The function constructor prepends its own header lines; measure how many
+// instead of assuming a particular engine's layout.
+function measureBodyLineOffset(): number {
+  let probe: Error | null = null
+  // The body runs synchronously up to its first await, so this captures right away
+  createUserFunction(['capture'], 'capture(new Error())')((error: Error) => {
+    probe = error
+  })
+
+  const frame = findUserFrame(probe?.stack)
+  return frame ? frame.line - 1 : 0
+}
+
+const bodyLineOffset = measureBodyLineOffset()
+
+function toBodyLocation(frame: CodeLocation): CodeLocation | null {
+  const line = frame.line - bodyLineOffset
+  return line >= 1 ? { line, column: frame.column } : null
+}
+
+// Location of the innermost user-code frame, relative to the code that was run
+export function getUserCodeLocation(error: unknown): CodeLocation | null {
+  const frame = findUserFrame(error instanceof Error ? error.stack : undefined)
+  return frame ? toBodyLocation(frame) : null
+}
+
+// Every recognisable frame of the error's stack, innermost first
+export function parseStackFrames(error: unknown): StackFrame[] {
+  const stack = error instanceof Error ? error.stack : undefined
+  if (!stack) return []
+
+  const frames: StackFrame[] = []
+  for (const rawLine of stack.split('\n')) {
+    const match = rawLine.match(V8_FRAME_PATTERN) ?? rawLine.match(GECKO_FRAME_PATTERN)
+    if (!match) continue
+
+    const [, functionName, file, line, column] = match
+    const location = file.endsWith(USER_CODE_URL)
+      ? toBodyLocation({ line: Number(line), column: Number(column) })
+      : null
+
+    frames.push({
+      text: rawLine.trim(),
+      functionName: functionName || null,
+      location: location ?? undefined
+    })
+    if (frames.length >= MAX_STACK_FRAMES) break
+  }
+  return frames
+}
+
+const ATTRIBUTION_STACK_LIMIT = 50
+
+function captureDeepStack() {
+  // V8 keeps 10 frames by default, fewer than a call through Babylon.js can take
+  const errorConstructor = Error as { stackTraceLimit?: number }
+  const limit = errorConstructor.stackTraceLimit
+  errorConstructor.stackTraceLimit = ATTRIBUTION_STACK_LIMIT
+  try {
+    return new Error().stack ?? ''
+  } finally {
+    errorConstructor.stackTraceLimit = limit
+  }
+}
+
+// Whether user code is somewhere up the current call stack
+export function isCalledFromUserCode(): boolean {
+  return USER_FRAME_PATTERN.test(captureDeepStack())
+}
+
+// The innermost user-code line up the current call stack
+export function getUserCallerLocation(): CodeLocation | null {
+  const frame = findUserFrame(captureDeepStack())
+  return frame ? toBodyLocation(frame) : null
+}
@@ -0,0 +1,77 @@
+import * as BABYLON from '@babylonjs/core'
+import type { StatsSample } from '@/lib/runtime/protocol'
+
+// Samples engine and scene instrumentation for the stats overlay. The counters
+// only run while the overlay is open; GPU timer queries cost a little every frame.
+
+const SAMPLE_INTERVAL_MS = 500
+// The GPU frame time counter is kept in nanoseconds
+const NANOSECONDS_PER_MS = 1e6
+
+export class StatsMonitor {
+  private engineInstrumentation: BABYLON.EngineInstrumentation | null = null
+  private sceneInstrumentation: BABYLON.SceneInstrumentation | null = null
+  private scene: BABYLON.Scene | null = null
+  private runId: number | null = null
+  private interval: ReturnType<typeof setInterval> | null = null
+
+  constructor(private engine: BABYLON.AbstractEngine, private onSample: (sample: StatsSample) => void) {}
+
+  setEnabled(enabled: boolean) {
+    if (enabled === (this.interval !== null)) return
+
+    if (enabled) {
+      this.engineInstrumentation = new BABYLON.EngineInstrumentation(this.engine)
+      this.engineInstrumentation.captureGPUFrameTime = true
+      this.instrumentScene()
+      this.interval = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS)
+      return
+    }
+
+    clearInterval(this.interval)
+    this.interval = null
+    this.engineInstrumentation?.dispose()
+    this.engineInstrumentation = null
+    this.sceneInstrumentation?.dispose()
+    this.sceneInstrumentation = null
+  }
+
+  // Must be called before the previous scene is disposed
+  setScene(scene: BABYLON.Scene | null, runId: number | null) {
+    this.sceneInstrumentation?.dispose()
+    this.sceneInstrumentation = null
+    this.scene = scene
+    this.runId = runId
+    if (this.interval !== null) {
+      this.instrumentScene()
+    }
+  }
+
+  private instrumentScene() {
+    if (!this.scene) return
+    const instrumentation = new BABYLON.SceneInstrumentation(this.scene)
+    instrumentation.captureFrameTime = true
+    instrumentation.captureRenderTime = true
+    this.sceneInstrumentation = instrumentation
+  }
+
+  private sample() {
+    const gpuFrameTime = this.engineInstrumentation?.gpuFrameTimeCounter
+    const scene = this.scene
+
+    this.onSample({
+      timestamp: Date.now(),
+      runId: this.runId,
+      fps: this.engine.getFps(),
+      frameTimeMs: this.sceneInstrumentation?.frameTimeCounter.lastSecAverage ?? 0,
+      renderTimeMs: this.sceneInstrumentation?.renderTimeCounter.lastSecAverage ?? 0,
+      // Nothing is counted where timer queries are unsupported
+      gpuFrameTimeMs: gpuFrameTime && gpuFrameTime.count > 0 ? gpuFrameTime.lastSecAverage / NANOSECONDS_PER_MS : null,
+      drawCalls: this.sceneInstrumentation?.drawCallsCounter.current ?? 0,
+      activeMeshes: scene ? scene.getActiveMeshes().length : 0,
+      vertices: scene ? scene.getTotalVertices() : 0,
+      sceneTextures: scene ? scene.textures.length : 0,
+      engineTextures: this.engine.getLoadedTexturesCache().length
+    })
+  }
+}
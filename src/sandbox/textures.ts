@@ -0,0 +1,87 @@
+import * as BABYLON from '@babylonjs/core'
+import { GrassProceduralTexture, MarbleProceduralTexture, WoodProceduralTexture } from '@babylonjs/procedural-textures'
+import type { ProceduralTextureKind, TextureSource } from '@/lib/runtime/protocol'
+import { toAssetUrl } from '@/lib/asset-url'
+
+// Textures the Assets Library puts on meshes, and the code that recreates them.
+// Code is generated from the live texture, so it survives the scene being re-run.
+
+const PROCEDURAL_TEXTURE_SIZE = 512
+// The library has no checkerboard; a tiled 2×2 texture with nearest sampling is one
+const CHECKERBOARD_NAME = 'checkerboard'
+const CHECKERBOARD_PIXELS = [255, 255, 255, 40, 40, 40, 40, 40, 40, 255, 255, 255]
+const CHECKERBOARD_TILES = 4
+
+// Procedural textures that the generated code can create by class name
+const PROCEDURAL_CLASS_NAMES = [
+  'NoiseProceduralTexture',
+  'MarbleProceduralTexture',
+  'WoodProceduralTexture',
+  'GrassProceduralTexture'
+]
+
+function createProceduralTexture(kind: ProceduralTextureKind, name: string, scene: BABYLON.Scene): BABYLON.BaseTexture {
+  switch (kind) {
+    case 'noise':
+      return new BABYLON.NoiseProceduralTexture(name, PROCEDURAL_TEXTURE_SIZE, scene)
+    case 'marble':
+      return new MarbleProceduralTexture(name, PROCEDURAL_TEXTURE_SIZE, scene)
+    case 'wood':
+      return new WoodProceduralTexture(name, PROCEDURAL_TEXTURE_SIZE, scene)
+    case 'grass':
+      return new GrassProceduralTexture(name, PROCEDURAL_TEXTURE_SIZE, scene)
+    case 'checkerboard': {
+      const texture = BABYLON.RawTexture.CreateRGBTexture(
+        new Uint8Array(CHECKERBOARD_PIXELS), 2, 2, scene, false, false, BABYLON.Texture.NEAREST_SAMPLINGMODE
+      )
+      texture.name = CHECKERBOARD_NAME
+      texture.uScale = CHECKERBOARD_TILES
+      texture.vScale = CHECKERBOARD_TILES
+      return texture
+    }
+  }
+}
+
+export function createTexture(source: TextureSource, name: string, scene: BABYLON.Scene): BABYLON.BaseTexture {
+  return source.kind === 'image'
+    ? new BABYLON.Texture(toAssetUrl(source.fileName), scene)
+    : createProceduralTexture(source.procedural, name, scene)
+}
+
+function getCreationCode(texture: BABYLON.BaseTexture): string | null {
+  const className = texture.getClassName()
+  if (PROCEDURAL_CLASS_NAMES.includes(className)) {
+    return `new BABYLON.${className}(${JSON.stringify(texture.name)}, ${texture.getSize().width}, scene)`
+  }
+  if (texture instanceof BABYLON.RawTexture && texture.name === CHECKERBOARD_NAME) {
+    return `BABYLON.RawTexture.CreateRGBTexture(new Uint8Array([${CHECKERBOARD_PIXELS.join(', ')}]), 2, 2, scene, false, false, BABYLON.Texture.NEAREST_SAMPLINGMODE)`
+  }
+  // Blob and data URLs only exist in this session
+  if (texture instanceof BABYLON.Texture && texture.url && !/^(blob|data):/.test(texture.url)) {
+    return `new BABYLON.Texture(${JSON.stringify(texture.url)}, scene)`
+  }
+  return null
+}
+
+// Statements declaring variableName as the texture, or null for textures it can't recreate
+export function getTextureCode(texture: BABYLON.BaseTexture, variableName: string): string | null {
+  const creation = getCreationCode(texture)
+  if (!creation) return null
+
+  const lines = [`const ${variableName} = ${creation};`]
+  if (texture.name === CHECKERBOARD_NAME) {
+    lines.push(`${variableName}.name = "${CHECKERBOARD_NAME}";`)
+  }
+  if (texture instanceof BABYLON.Texture && (texture.uScale !== 1 || texture.vScale !== 1)) {
+    lines.push(`${variableName}.uScale = ${texture.uScale};`)
+    lines.push(`${variableName}.vScale = ${texture.vScale};`)
+  }
+  return lines.join('\n')
+}
+
+// "boxMaterial" + marble -> "boxMaterialMarbleTexture"; images are named after their file
+export function getTextureVariable(source: TextureSource, prefix: string): string {
+  const label = source.kind === 'image' ? source.fileName.replace(/\.[^.]+$/, '') : source.procedural
+  const words = label.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  return prefix + words.map(word => word[0].toUpperCase() + word.slice(1)).join('') + 'Texture'
+}
@@ -0,0 +1,77 @@
+import { LOOP_GUARD_GLOBAL } from '@/lib/compiler/types'
+
+// Aborts user code that keeps the sandbox busy for longer than the time budget.
+// The compiler puts a guard call at the top of every loop body; the guard measures
+// how long the current task has been running without giving the event loop a turn.
+
+// Reading the clock on every iteration would slow tight loops down noticeably
+const CHECK_INTERVAL = 1000
+
+export class ExecutionAbortedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExecutionAbortedError'
+  }
+}
+
+let budgetMs = 5000
+let sliceActive = false
+let sliceDeadline = 0
+let iterations = 0
+let aborted = false
+
+function releaseSlice() {
+  sliceActive = false
+  aborted = false
+}
+
+function loopGuard() {
+  if (!sliceActive) {
+    sliceActive = true
+    sliceDeadline = performance.now() + budgetMs
+    iterations = 0
+    // Only runs once the event loop gets control back, which ends the slice
+    setTimeout(releaseSlice, 0)
+    return
+  }
+
+  // Keep throwing so loops that catch the first abort still unwind
+  if (aborted || (++iterations % CHECK_INTERVAL === 0 && performance.now() > sliceDeadline)) {
+    aborted = true
+    throw new ExecutionAbortedError(
+      `Execution aborted: a loop ran for more than ${formatBudget()} without finishing`
+    )
+  }
+}
+
+function formatBudget() {
+  return `${budgetMs / 1000}s`
+}
+
+export function setExecutionBudget(ms: number) {
+  budgetMs = ms
+}
+
+// Rejects once the budget is spent; the caller throws away whatever the run built so far
+export function withExecutionBudget<T>(work: Promise<T>, description: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new ExecutionAbortedError(`Execution aborted: ${description} did not finish within ${formatBudget()}`))
+    }, budgetMs)
+
+    work.then(
+      result => {
+        clearTimeout(timeout)
+        resolve(result)
+      },
+      error => {
+        clearTimeout(timeout)
+        reject(error)
+      }
+    )
+  })
+}
+
+export function installLoopGuard() {
+  (window as unknown as Record<string, unknown>)[LOOP_GUARD_GLOBAL] = loopGuard
+}
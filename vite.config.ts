@@ -3,11 +3,21 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// The sandbox iframe has an opaque origin, so its module scripts and chunks are cross-origin
+// requests. Production hosts need the same header; public/_headers sets it for hosts that read it.
+const SANDBOX_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    headers: SANDBOX_HEADERS,
+  },
+  preview: {
+    headers: SANDBOX_HEADERS,
   },
   plugins: [
     react(),
@@ -19,4 +29,16 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The compiler worker lazy-loads TypeScript's lib files, which needs code splitting
+    format: "es",
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        sandbox: path.resolve(__dirname, "sandbox.html"),
+      },
+    },
+  },
 }));